@@ -0,0 +1,50 @@
+import { AnimationAliases } from './types';
+
+// Other names skeletons use for the standard states, tried in order after the state's own name
+const KNOWN_ALIASES: { [state: string]: string[] } = {
+    Relax: ["Idle", "Default", "Stand"],
+    Interact: ["Touch", "Interaction", "Attack"],
+    Move: ["Walk", "Run"],
+    Sit: ["Sitting"],
+    Sleep: ["Sleeping", "Rest"],
+    Special: ["Skill"],
+};
+
+// Lowercase and without the suffixes of variants and loops, e.g. "Move_Loop" and "Relax_1"
+function normalize(name: string): string {
+    return name.toLowerCase().replace(/(_(loop|\d+))+$/, "");
+}
+
+function findAnimation(animations: string[], candidates: string[]): string | undefined {
+    for (const candidate of candidates) {
+        const normalized = normalize(candidate);
+        const found = animations.find(name => name === candidate) ?? animations.find(name => normalize(name) === normalized);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Map the states of the pet onto the animations a skeleton actually has. Aliases given by the
+ * model win; the standard states not given are matched by name, e.g. `Relax` to `Idle` or
+ * `Move` to `Move_Loop`. Aliases naming an animation the skeleton lacks are ignored.
+ */
+export function resolveAnimationAliases(animations: string[], aliases: AnimationAliases = {}): AnimationAliases {
+    const resolved: AnimationAliases = {};
+    Object.keys(KNOWN_ALIASES).forEach(state => {
+        const found = findAnimation(animations, [state, ...KNOWN_ALIASES[state]]);
+        if (found) {
+            resolved[state] = found;
+        }
+    });
+    Object.entries(aliases).forEach(([state, animation]) => {
+        if (animations.indexOf(animation) !== -1) {
+            resolved[state] = animation;
+        } else {
+            console.warn(`Animation ${animation} aliased to ${state} does not exist in the skeleton`);
+        }
+    });
+    return resolved;
+}
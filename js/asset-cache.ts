@@ -0,0 +1,319 @@
+import { AssetCacheOptions, CharacterModel, SkeletonFormat } from './types';
+import { MissingFileError, NetworkError } from './errors';
+
+// Cache Storage only accepts http(s) requests as keys, so entries live under a fake same-origin path
+const CACHE_KEY_PREFIX = '/__arkpets-cache__/';
+const INDEX_KEY = CACHE_KEY_PREFIX + 'index.json';
+
+const DEFAULT_OPTIONS: Required<AssetCacheOptions> = {
+    name: 'arkpets-assets',
+    maxBytes: 200 * 1024 * 1024,
+    retries: 3,
+    retryDelay: 500,
+};
+
+export interface ModelFile {
+    // Key of the file in the Spine asset manager
+    path: string;
+    // Where to download it from
+    url: string;
+}
+
+interface IndexEntry {
+    keys: string[];
+    size: number;
+    lastUsed: number;
+}
+
+type CacheIndex = { [modelKey: string]: IndexEntry };
+
+export type ProgressCallback = (loaded: number, total: number | null) => void;
+
+function encodeUriPath(path: string): string {
+    return encodeURIComponent(path).replace(/%2F/g, '/');
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function getTexturePages(model: CharacterModel): string[] {
+    return typeof model.texture === "string" ? [model.texture] : model.texture;
+}
+
+/**
+ * Skeleton format given by the model or its file extension, null if neither tells.
+ */
+export function getDeclaredSkeletonFormat(model: CharacterModel): SkeletonFormat | null {
+    if (model.skeletonFormat) {
+        return model.skeletonFormat;
+    }
+    const extension = model.skeleton.split('.').pop()?.toLowerCase();
+    return extension === 'json' ? "json" : extension === 'skel' ? "binary" : null;
+}
+
+/**
+ * Files making up a model: skeleton, atlas and texture pages, in this order.
+ */
+export function getModelFiles(model: CharacterModel): ModelFile[] {
+    const basePath = model.resourcePath ?? "";
+    return [model.skeleton, model.atlas, ...getTexturePages(model)].map(resource => ({
+        path: basePath + resource,
+        url: basePath + encodeUriPath(resource),
+    }));
+}
+
+/**
+ * Persistent cache of model files backed by Cache Storage, so that switching characters and
+ * reloading the page doesn't download the assets again, and pets keep working offline.
+ *
+ * Entries are keyed by model id and `CharacterModel.version`; bump the version when the files change.
+ * Whole models are evicted, least recently used first, once the cache grows over `maxBytes`.
+ * Without Cache Storage (e.g. insecure contexts) files are simply downloaded every time.
+ */
+export class AssetCache {
+    private options: Required<AssetCacheOptions>;
+    // Serializes updates of the index, which is read and written as a whole
+    private indexQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(options: AssetCacheOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    private isAvailable(): boolean {
+        return typeof caches !== 'undefined';
+    }
+
+    private getModelKey(model: CharacterModel): string {
+        return model.id + '@' + (model.version ?? '');
+    }
+
+    private getCacheKey(model: CharacterModel, url: string): string {
+        return CACHE_KEY_PREFIX + encodeURIComponent(this.getModelKey(model)) + '/' + encodeURIComponent(url);
+    }
+
+    /**
+     * Get the files of a model, from the cache if they are all there, otherwise from the network.
+     * Blobs are returned in the order of `files`.
+     */
+    public async fetchModel(model: CharacterModel, files: ModelFile[], onProgress?: ProgressCallback): Promise<Blob[]> {
+        if (this.isAvailable()) {
+            try {
+                const cached = await this.readModel(model, files);
+                if (cached) {
+                    const size = cached.reduce((sum, blob) => sum + blob.size, 0);
+                    onProgress?.(size, size);
+                    return cached;
+                }
+            } catch (error) {
+                console.warn("Failed to read asset cache:", error);
+            }
+        }
+
+        // Report the sum of all files, the total is only known once every file announced its size
+        const loaded = files.map(() => 0);
+        const totals: (number | null)[] = files.map(() => null);
+        const report = () => {
+            const total = totals.every(t => t !== null) ? totals.reduce((a, b) => a! + b!, 0) : null;
+            onProgress?.(loaded.reduce((a, b) => a + b, 0), total);
+        };
+
+        const blobs = await Promise.all(files.map((file, i) => this.download(file.url, (fileLoaded, fileTotal) => {
+            loaded[i] = fileLoaded;
+            totals[i] = fileTotal;
+            report();
+        })));
+
+        if (this.isAvailable()) {
+            this.writeModel(model, files, blobs).catch(error => console.warn("Failed to write asset cache:", error));
+        }
+        return blobs;
+    }
+
+    /**
+     * Fetch a small file such as a catalog from the network, keeping a copy to fall back on when
+     * offline or when the server fails. Unlike model files it is fetched again every time.
+     */
+    public async fetchLatest(url: string): Promise<Response> {
+        const key = CACHE_KEY_PREFIX + 'latest/' + encodeURIComponent(new URL(url, location.href).href);
+        let response: Response | null = null;
+        let error: unknown = null;
+        try {
+            response = await fetch(url);
+            // Client errors such as 404 are the server's answer, don't hide them
+            if (response.status < 500) {
+                if (response.ok && this.isAvailable()) {
+                    const copy = response.clone();
+                    caches.open(this.options.name)
+                        .then(cache => cache.put(key, copy))
+                        .catch(error => console.warn("Failed to write asset cache:", error));
+                }
+                return response;
+            }
+        } catch (e) {
+            error = e;
+        }
+
+        if (this.isAvailable()) {
+            try {
+                const cached = await (await caches.open(this.options.name)).match(key);
+                if (cached) {
+                    console.warn(`Using cached copy of ${url}:`, error ?? response!.statusText);
+                    return cached;
+                }
+            } catch (e) {
+                console.warn("Failed to read asset cache:", e);
+            }
+        }
+        if (response) {
+            return response;
+        }
+        throw error;
+    }
+
+    /**
+     * Download models ahead of time so that switching to them is instant.
+     */
+    public async preload(models: CharacterModel[], onProgress?: (model: CharacterModel, loaded: number, total: number | null) => void): Promise<void> {
+        await Promise.all(models.map(model => this.fetchModel(model, getModelFiles(model), (loaded, total) => onProgress?.(model, loaded, total))));
+    }
+
+    /**
+     * Remove every cached file.
+     */
+    public async clear(): Promise<void> {
+        if (this.isAvailable()) {
+            await caches.delete(this.options.name);
+        }
+    }
+
+    private async readModel(model: CharacterModel, files: ModelFile[]): Promise<Blob[] | null> {
+        const cache = await caches.open(this.options.name);
+        const responses = await Promise.all(files.map(file => cache.match(this.getCacheKey(model, file.url))));
+        if (responses.some(response => !response)) {
+            return null;
+        }
+        const blobs = await Promise.all(responses.map(response => response!.blob()));
+        this.updateIndex(index => {
+            const entry = index[this.getModelKey(model)];
+            if (entry) {
+                entry.lastUsed = Date.now();
+            }
+        }).catch(error => console.warn("Failed to update asset cache index:", error));
+        return blobs;
+    }
+
+    private async writeModel(model: CharacterModel, files: ModelFile[], blobs: Blob[]): Promise<void> {
+        const size = blobs.reduce((sum, blob) => sum + blob.size, 0);
+        if (size > this.options.maxBytes) {
+            return;
+        }
+        const cache = await caches.open(this.options.name);
+        const keys = files.map(file => this.getCacheKey(model, file.url));
+        await Promise.all(keys.map((key, i) => cache.put(key, new Response(blobs[i]))));
+
+        await this.updateIndex(async index => {
+            index[this.getModelKey(model)] = { keys, size, lastUsed: Date.now() };
+
+            // Evict least recently used models until the cache fits
+            let total = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+            const byAge = Object.keys(index).sort((a, b) => index[a].lastUsed - index[b].lastUsed);
+            for (const key of byAge) {
+                if (total <= this.options.maxBytes) {
+                    break;
+                }
+                await Promise.all(index[key].keys.map(cacheKey => cache.delete(cacheKey)));
+                total -= index[key].size;
+                delete index[key];
+            }
+        });
+    }
+
+    private updateIndex(update: (index: CacheIndex) => void | Promise<void>): Promise<void> {
+        const next = this.indexQueue.then(async () => {
+            const cache = await caches.open(this.options.name);
+            const response = await cache.match(INDEX_KEY);
+            let index: CacheIndex = {};
+            if (response) {
+                try {
+                    index = await response.json();
+                } catch {
+                    // A corrupt index only loses LRU information, start over
+                }
+            }
+            await update(index);
+            await cache.put(INDEX_KEY, new Response(JSON.stringify(index), {
+                headers: { 'Content-Type': 'application/json' },
+            }));
+        });
+        // Keep the queue going even if this update failed
+        this.indexQueue = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Fetch a file, retrying with exponential backoff on network errors and server errors.
+     */
+    private async download(url: string, onProgress: ProgressCallback): Promise<Blob> {
+        for (let attempt = 0; ; attempt++) {
+            let error: NetworkError;
+            try {
+                const response = await fetch(url);
+                if (response.ok) {
+                    return await this.readBody(response, onProgress);
+                }
+                // Client errors such as 404 won't go away by retrying
+                if (response.status < 500) {
+                    throw new MissingFileError(url, response.status);
+                }
+                error = new NetworkError(url, `Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+            } catch (e) {
+                if (e instanceof MissingFileError) {
+                    throw e;
+                }
+                error = e instanceof NetworkError ? e : new NetworkError(url, `Failed to fetch ${url}: ${e}`, e);
+            }
+            if (attempt >= this.options.retries) {
+                throw error;
+            }
+            const delay = this.options.retryDelay * Math.pow(2, attempt);
+            console.warn(`Retrying ${url} in ${delay}ms:`, error);
+            await sleep(delay);
+        }
+    }
+
+    private async readBody(response: Response, onProgress: ProgressCallback): Promise<Blob> {
+        const length = response.headers.get('Content-Length');
+        const total = length !== null ? parseInt(length, 10) : null;
+        if (!response.body) {
+            const blob = await response.blob();
+            onProgress(blob.size, blob.size);
+            return blob;
+        }
+
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let loaded = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            chunks.push(value);
+            loaded += value.length;
+            onProgress(loaded, total);
+        }
+        onProgress(loaded, loaded);
+        return new Blob(chunks as BlobPart[], { type: response.headers.get('Content-Type') ?? '' });
+    }
+}
+
+// Cache used by characters unless they are given another one
+export const defaultAssetCache = new AssetCache();
+
+/**
+ * Download models into the default cache ahead of time.
+ */
+export function preload(models: CharacterModel[], onProgress?: (model: CharacterModel, loaded: number, total: number | null) => void): Promise<void> {
+    return defaultAssetCache.preload(models, onProgress);
+}
@@ -0,0 +1,133 @@
+import { BehaviorProfile } from './types';
+
+const PROBABILITY_EPSILON = 1e-6;
+// States the pet falls back to when dragged or landing, and plays when clicked
+const REQUIRED_ANIMATIONS = ["Relax", "Interact"];
+
+export const DEFAULT_BEHAVIOR_PROFILES: { [name: string]: BehaviorProfile } = {
+    standard: {
+        animations: ["Relax", "Interact", "Move", "Sit", "Sleep", "Special"],
+        transitions: [
+            [0.5, 0.0, 0.2, 0.1, 0.1, 0.1],
+            [1.0, 0.0, 0.0, 0.0, 0.0, 0.0],
+            [0.2, 0.0, 0.6, 0.0, 0.0, 0.2],
+            [0.3, 0.0, 0.0, 0.5, 0.0, 0.2],
+            [0.1, 0.0, 0.0, 0.0, 0.9, 0.0],
+            [0.4, 0.0, 0.4, 0.1, 0.1, 0.0],
+        ],
+        movingAnimations: ["Move"],
+        falling: { hardThrow: "Interact" },
+    },
+    // Vehicle can't sit & sleep
+    vehicle: {
+        animations: ["Relax", "Interact", "Move", "Special"],
+        transitions: [
+            [0.4, 0.0, 0.5, 0.1],
+            [1.0, 0.0, 0.0, 0.0],
+            [0.3, 0.0, 0.6, 0.1],
+            [0.5, 0.0, 0.5, 0.0],
+        ],
+        movingAnimations: ["Move"],
+        falling: { hardThrow: "Interact" },
+    },
+    // Characters without Special animation
+    noSpecial: {
+        animations: ["Relax", "Interact", "Move", "Sit", "Sleep"],
+        transitions: [
+            [0.5, 0.0, 0.25, 0.15, 0.1],
+            [1.0, 0.0, 0.0, 0.0, 0.0],
+            [0.2, 0.0, 0.8, 0.0, 0.0],
+            [0.3, 0.0, 0.0, 0.7, 0.0],
+            [0.1, 0.0, 0.0, 0.0, 0.9],
+        ],
+        movingAnimations: ["Move"],
+        falling: { hardThrow: "Interact" },
+    },
+    // Vehicle without Special animation
+    vehicleNoSpecial: {
+        animations: ["Relax", "Interact", "Move"],
+        transitions: [
+            [0.5, 0.0, 0.5],
+            [1.0, 0.0, 0.0],
+            [0.3, 0.0, 0.7],
+        ],
+        movingAnimations: ["Move"],
+        falling: { hardThrow: "Interact" },
+    },
+};
+
+/**
+ * Pick the built-in profile matching the animations available in a skeleton.
+ */
+export function getDefaultBehaviorProfile(hasAnimation: (name: string) => boolean): BehaviorProfile {
+    const isVehicle = !hasAnimation("Sit") || !hasAnimation("Sleep");
+    const hasSpecial = hasAnimation("Special");
+    if (isVehicle) {
+        return hasSpecial ? DEFAULT_BEHAVIOR_PROFILES.vehicle : DEFAULT_BEHAVIOR_PROFILES.vehicleNoSpecial;
+    }
+    return hasSpecial ? DEFAULT_BEHAVIOR_PROFILES.standard : DEFAULT_BEHAVIOR_PROFILES.noSpecial;
+}
+
+/**
+ * Check that a behavior profile is well-formed. Throws an error describing the first problem found.
+ * If `hasAnimation` is given, every state must also exist in the skeleton.
+ */
+export function validateBehaviorProfile(profile: BehaviorProfile, hasAnimation?: (name: string) => boolean): void {
+    const { animations, transitions } = profile;
+    if (!Array.isArray(animations) || animations.length === 0) {
+        throw new Error("Behavior profile must have at least one animation");
+    }
+    if (new Set(animations).size !== animations.length) {
+        throw new Error("Behavior profile has duplicated animations");
+    }
+    REQUIRED_ANIMATIONS.forEach(animation => {
+        if (animations.indexOf(animation) === -1) {
+            throw new Error(`Behavior profile is missing the ${animation} state`);
+        }
+    });
+    if (!Array.isArray(transitions) || transitions.length !== animations.length) {
+        throw new Error(`Behavior profile must have ${animations.length} transition rows`);
+    }
+
+    transitions.forEach((row, i) => {
+        if (!Array.isArray(row) || row.length !== animations.length) {
+            throw new Error(`Transition row of ${animations[i]} must have ${animations.length} entries`);
+        }
+        if (row.some(p => typeof p !== "number" || !isFinite(p) || p < 0)) {
+            throw new Error(`Transition row of ${animations[i]} has invalid probabilities: ${row}`);
+        }
+        const sum = row.reduce((a, b) => a + b, 0);
+        if (Math.abs(sum - 1) > PROBABILITY_EPSILON) {
+            throw new Error(`Transition row of ${animations[i]} sums to ${sum} instead of 1`);
+        }
+    });
+
+    Object.entries(profile.dwellTimes ?? {}).forEach(([animation, dwell]) => {
+        if (animations.indexOf(animation) === -1) {
+            throw new Error(`Dwell time given for unknown animation ${animation}`);
+        }
+        if (!(dwell.min >= 0) || !(dwell.max >= dwell.min)) {
+            throw new Error(`Invalid dwell time of ${animation}: min ${dwell.min}, max ${dwell.max}`);
+        }
+    });
+
+    (profile.movingAnimations ?? []).forEach(animation => {
+        if (animations.indexOf(animation) === -1) {
+            throw new Error(`Moving animation ${animation} is not a state of the profile`);
+        }
+    });
+
+    Object.entries(profile.falling ?? {}).forEach(([reaction, animation]) => {
+        if (animation !== undefined && animations.indexOf(animation) === -1) {
+            throw new Error(`Falling ${reaction} animation ${animation} is not a state of the profile`);
+        }
+    });
+
+    if (hasAnimation) {
+        animations.forEach(animation => {
+            if (!hasAnimation(animation)) {
+                throw new Error(`Animation ${animation} does not exist in the skeleton`);
+            }
+        });
+    }
+}
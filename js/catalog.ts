@@ -0,0 +1,205 @@
+import { AnimationAliases, CharacterModel, DialoguePools, LocalizedString, Operator, SkeletonFormat } from './types';
+import { localize } from './i18n';
+import { AssetCache, defaultAssetCache } from './asset-cache';
+import { isAnimationAliases, isDialoguePools, isLocalizedString, isNonEmptyString, isObject, isStringArray } from './validation';
+
+export const CATALOG_VERSION = 1;
+
+// A model name, either plain or per locale
+export type CatalogName = LocalizedString;
+
+export interface CatalogEntry {
+    id: string;
+    name: CatalogName;
+    skeleton: string;
+    // See `CharacterModel.skeletonFormat`
+    skeletonFormat?: SkeletonFormat;
+    atlas: string;
+    // One path per atlas page
+    texture: string | string[];
+    // Overrides the catalog's `basePath`
+    resourcePath?: string;
+    // Content version of the files, used to invalidate cached copies
+    version?: string;
+    // Heading the model is listed under in the menu, e.g. a faction
+    group?: string;
+    // Id of the operator in the catalog's `operators` this model is an outfit of
+    operator?: string;
+    // Name of the outfit, see `CharacterModel.skin`
+    skin?: CatalogName;
+    // Free-form keywords matched by the menu search, e.g. operator, faction or skin names
+    tags?: string[];
+    // Lines the pet may say, see `CharacterModel.dialogue`
+    dialogue?: DialoguePools;
+    // See `CharacterModel.animationAliases`
+    animationAliases?: AnimationAliases;
+}
+
+export interface CatalogOperator {
+    id: string;
+    name: CatalogName;
+}
+
+/**
+ * Versioned manifest listing the models available to a site.
+ */
+export interface Catalog {
+    version: number;
+    // Prefix of all model files, relative to the catalog URL. Defaults to the catalog's directory
+    basePath?: string;
+    // Operators whose skins are listed together, referred to by the models
+    operators?: CatalogOperator[];
+    models: CatalogEntry[];
+}
+
+export interface LoadCatalogOptions {
+    // Only keep the names of this locale. By default models keep all their names, and the one
+    // matching the current locale is shown
+    locale?: string;
+    // Keeps the last catalog downloaded, used when the network fails. Defaults to the shared cache
+    assetCache?: AssetCache;
+}
+
+function localizeName(name: CatalogName, options: LoadCatalogOptions): CatalogName {
+    return options.locale ? localize(name, options.locale) : name;
+}
+
+function validateOperators(operators: unknown): Set<string> {
+    const ids = new Set<string>();
+    if (operators === undefined) {
+        return ids;
+    }
+    if (!Array.isArray(operators)) {
+        throw new Error("Catalog operators must be an array");
+    }
+    operators.forEach((operator: unknown, i: number) => {
+        if (!isObject(operator) || !isNonEmptyString(operator.id)) {
+            throw new Error(`Catalog operator #${i} must have an id`);
+        }
+        const id = operator.id;
+        if (!isLocalizedString(operator.name)) {
+            throw new Error(`Catalog operator ${id} has an invalid name`);
+        }
+        if (ids.has(id)) {
+            throw new Error(`Catalog has duplicated operator id ${id}`);
+        }
+        ids.add(id);
+    });
+    return ids;
+}
+
+function validateEntry(entry: unknown, i: number, operatorIds: Set<string>): asserts entry is CatalogEntry {
+    if (!isObject(entry)) {
+        throw new Error(`Catalog model #${i} must be an object`);
+    }
+    (["id", "skeleton", "atlas"] as const).forEach(field => {
+        if (!isNonEmptyString(entry[field])) {
+            throw new Error(`Catalog model #${i} is missing ${field}`);
+        }
+    });
+    const { id, texture } = entry;
+    if (!isNonEmptyString(texture) && !(isStringArray(texture) && texture.length > 0 && texture.every(isNonEmptyString))) {
+        throw new Error(`Catalog model #${i} is missing texture`);
+    }
+    if (entry.skeletonFormat !== undefined && entry.skeletonFormat !== "binary" && entry.skeletonFormat !== "json") {
+        throw new Error(`Catalog model ${id} has an invalid skeletonFormat`);
+    }
+    if (!isLocalizedString(entry.name)) {
+        throw new Error(`Catalog model ${id} has an invalid name`);
+    }
+    if (entry.operator !== undefined && !(typeof entry.operator === "string" && operatorIds.has(entry.operator))) {
+        throw new Error(`Catalog model ${id} refers to unknown operator ${entry.operator}`);
+    }
+    if (entry.skin !== undefined && !isLocalizedString(entry.skin)) {
+        throw new Error(`Catalog model ${id} has an invalid skin name`);
+    }
+    if (entry.resourcePath !== undefined && typeof entry.resourcePath !== "string") {
+        throw new Error(`Catalog model ${id} has an invalid resourcePath`);
+    }
+    if (entry.version !== undefined && typeof entry.version !== "string") {
+        throw new Error(`Catalog model ${id} has an invalid version`);
+    }
+    if (entry.group !== undefined && typeof entry.group !== "string") {
+        throw new Error(`Catalog model ${id} has an invalid group`);
+    }
+    if (entry.tags !== undefined && !isStringArray(entry.tags)) {
+        throw new Error(`Catalog model ${id} has invalid tags`);
+    }
+    if (entry.dialogue !== undefined && !isDialoguePools(entry.dialogue)) {
+        throw new Error(`Catalog model ${id} has invalid dialogue`);
+    }
+    if (entry.animationAliases !== undefined && !isAnimationAliases(entry.animationAliases)) {
+        throw new Error(`Catalog model ${id} has invalid animationAliases`);
+    }
+}
+
+/**
+ * Check that a parsed manifest is a supported catalog. Throws an error describing the first problem found.
+ */
+export function validateCatalog(catalog: unknown): asserts catalog is Catalog {
+    if (!isObject(catalog)) {
+        throw new Error("Catalog must be a JSON object");
+    }
+    if (catalog.version !== CATALOG_VERSION) {
+        throw new Error(`Unsupported catalog version ${catalog.version}, expected ${CATALOG_VERSION}`);
+    }
+    if (catalog.basePath !== undefined && typeof catalog.basePath !== "string") {
+        throw new Error("Catalog basePath must be a string");
+    }
+    if (!Array.isArray(catalog.models)) {
+        throw new Error("Catalog must have a models array");
+    }
+
+    const operatorIds = validateOperators(catalog.operators);
+    const ids = new Set<string>();
+    catalog.models.forEach((entry: unknown, i: number) => {
+        validateEntry(entry, i, operatorIds);
+        if (ids.has(entry.id)) {
+            throw new Error(`Catalog has duplicated model id ${entry.id}`);
+        }
+        ids.add(entry.id);
+    });
+}
+
+/**
+ * Turn a validated catalog into models. `catalogUrl` is used to resolve relative base paths.
+ */
+export function catalogToModels(catalog: Catalog, catalogUrl: string, options: LoadCatalogOptions = {}): CharacterModel[] {
+    const catalogBase = new URL(catalogUrl, location.href);
+    const basePath = new URL(catalog.basePath ?? "./", catalogBase).href;
+    // Shared by the models of each operator
+    const operators = new Map<string, Operator>();
+    (catalog.operators ?? []).forEach(operator => {
+        operators.set(operator.id, { id: operator.id, name: localizeName(operator.name, options) });
+    });
+
+    return catalog.models.map(entry => ({
+        id: entry.id,
+        name: localizeName(entry.name, options),
+        skeleton: entry.skeleton,
+        skeletonFormat: entry.skeletonFormat,
+        atlas: entry.atlas,
+        texture: entry.texture,
+        resourcePath: entry.resourcePath !== undefined ? new URL(entry.resourcePath, catalogBase).href : basePath,
+        version: entry.version,
+        group: entry.group,
+        operator: entry.operator !== undefined ? operators.get(entry.operator) : undefined,
+        skin: entry.skin !== undefined ? localizeName(entry.skin, options) : undefined,
+        tags: entry.tags,
+        dialogue: entry.dialogue,
+        animationAliases: entry.animationAliases,
+    }));
+}
+
+/**
+ * Download a catalog manifest, or use the last copy downloaded when offline, validate it and return its models.
+ */
+export async function loadCatalog(url: string, options: LoadCatalogOptions = {}): Promise<CharacterModel[]> {
+    const response = await (options.assetCache ?? defaultAssetCache).fetchLatest(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch catalog ${url}: ${response.statusText}`);
+    }
+    const catalog = await response.json();
+    validateCatalog(catalog);
+    return catalogToModels(catalog, url, options);
+}
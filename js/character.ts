@@ -1,16 +1,23 @@
 import spine from '../libs/spine-webgl.js';
 import webgl = spine.webgl;
-import outlineFragmentShader from '../shaders/OutlineFragment.glsl';
-import outlineVertexShader from '../shaders/OutlineVertex.glsl';
-import { CharacterModel } from './types.js';
-
-const MOVING_SPEED = 30; // pixels per second
-
-const GRAVITY = 1000; // pixels per second squared
-const DRAG = 0.98; // air resistance
-const MAX_VELOCITY = 1000; // maximum velocity in pixels per second
-const MIN_VELOCITY = 5; // threshold for stopping
-const BOUNCE_DAMPING = 0.7; // energy loss on bounce
+import { AnimationAliases, BehaviorProfile, CharacterEventMap, CharacterModel, CharacterOptions, DialogueTrigger, EffectOptions, HitTestMode, PhysicsOptions, SayOptions, SchedulerOptions, UniformValue } from './types.js';
+import { getDefaultBehaviorProfile, validateBehaviorProfile } from './behavior';
+import { resolveAnimationAliases } from './animation-aliases';
+import { EventEmitter, EventListener } from './events';
+import { RenderContext, RenderTarget } from './render-context';
+import { PlatformTracker } from './platforms';
+import { CoordinateSpace } from './coordinates';
+import { AssetCache, defaultAssetCache } from './asset-cache';
+import { LoadError, MissingAnimationError, toLoadError } from './errors';
+import { LoadingIndicator } from './loading-indicator';
+import { SpeechBubble } from './speech-bubble';
+import { StateStore } from './persistence';
+import { EffectProgram, getEffect, resolveEffectOptions } from './effects';
+import { GeometryHitTester } from './hit-test';
+import { DEFAULT_SCHEDULER_OPTIONS, FrameScheduler, isLowBattery, prefersReducedMotion } from './scheduler';
+import { PetSimulation } from './simulation';
+import { getModelName } from './i18n';
+import { TouchGestures } from './gestures';
 
 const BASE_SKELETON_SCALE = 0.3; // Base scale for the character skeleton
 
@@ -26,102 +33,87 @@ const SCREEN_CONFIG = {
 const minScale: number = 0.5;
 const maxScale: number = 2.0;
 
-const ANIMATION_NAMES = ["Relax", "Interact", "Move", "Sit" , "Sleep", "Special"];
-const ANIMATION_MARKOV = [
-    [0.5, 0.0, 0.2, 0.1, 0.1, 0.1],
-    [1.0, 0.0, 0.0, 0.0, 0.0, 0.0],
-    [0.2, 0.0, 0.6, 0.0, 0.0, 0.2],
-    [0.3, 0.0, 0.0, 0.5, 0.0, 0.2],
-    [0.1, 0.0, 0.0, 0.0, 0.9, 0.0],
-    [0.4, 0.0, 0.4, 0.1, 0.1, 0.0], 
-]
-
-// Vehicle can't sit & sleep
-const ANIMATION_NAMES_VEHICLE = ["Relax", "Interact", "Move", "Special"];
-const ANIMATION_MARKOV_VEHICLE = [
-    [0.4, 0.0, 0.5, 0.1],
-    [1.0, 0.0, 0.0, 0.0],
-    [0.3, 0.0, 0.6, 0.1],
-    [0.5, 0.0, 0.5, 0.0],
-]
-
-// Added: Create separate animation chain for characters without Special animation
-const ANIMATION_NAMES_NO_SPECIAL = ["Relax", "Interact", "Move", "Sit", "Sleep"];
-const ANIMATION_MARKOV_NO_SPECIAL = [
-    [0.5, 0.0, 0.25, 0.15, 0.1],
-    [1.0, 0.0, 0.0, 0.0, 0.0],
-    [0.2, 0.0, 0.8, 0.0, 0.0],
-    [0.3, 0.0, 0.0, 0.7, 0.0],
-    [0.1, 0.0, 0.0, 0.0, 0.9],
-]
-
-// Vehicle without Special animation
-const ANIMATION_NAMES_VEHICLE_NO_SPECIAL = ["Relax", "Interact", "Move"];
-const ANIMATION_MARKOV_VEHICLE_NO_SPECIAL = [
-    [0.5, 0.0, 0.5],
-    [1.0, 0.0, 0.0],
-    [0.3, 0.0, 0.7],
-]
+// Limits of the size chosen by the user, relative to the default size
+export const MIN_USER_SCALE = 0.5;
+export const MAX_USER_SCALE = 2.5;
+
+function clampScale(scale: number): number {
+    return Math.max(MIN_USER_SCALE, Math.min(MAX_USER_SCALE, scale));
+}
+
+// Speech bubble duration in milliseconds, by default depending on the text length
+const MIN_SPEECH_DURATION = 2000;
+const MAX_SPEECH_DURATION = 8000;
+const SPEECH_DURATION_PER_CHAR = 80;
+
+const GRAYSCALE_FADE_TIME = 1.5; // seconds to fade to grayscale when falling asleep
+
+const FRAME_TIME_TOLERANCE = 0.002; // seconds a frame may come early and still be rendered
 
 interface SpineCharacter {
     skeleton: spine.Skeleton;
     state: spine.AnimationState;
 }
 
-interface Action {
-    animation: string;
-    direction: Direction;
-    timestamp: number;
-}
-
-type Direction = "left" | "right";
-
 export class Character {
     private canvas!: HTMLCanvasElement;
+    private renderContext!: RenderContext;
     private gl!: WebGLRenderingContext;
-    private shader!: webgl.Shader;
-    private batcher!: webgl.PolygonBatcher;
+    // Only set when drawing with a shared context, which is then copied to `canvas`
+    private displayContext: CanvasRenderingContext2D | null = null;
     private mvp!: webgl.Matrix4;
-    private assetManager!: webgl.AssetManager;
-    private skeletonRenderer!: webgl.SkeletonRenderer;
-    private lastFrameTime!: number;
-    private framebuffer!: WebGLFramebuffer;
-    private framebufferTexture!: WebGLTexture;
-    private outlineShader!: WebGLProgram;
-    private quadBuffer!: WebGLBuffer;
+    private startTime: number = performance.now();
+
+    // Post-processing of the second render pass
+    private effects!: Required<EffectOptions>;
+    private grayscale: number = 0;
 
     private isMouseOver: boolean = false;
     
     // Dragging state
-    private isDragging: boolean = false;
     private dragStartRelativeX: number = 0;
     private dragStartRelativeY: number = 0;
-    private lastDragEvent: MouseEvent | null = null;
+    // Time stamp of the last pointer move while dragging, in milliseconds
+    private lastDragTime: number | null = null;
+
+    // Taps, long presses, drags and pinches on touch screens
+    private gestures!: TouchGestures;
+    // Size relative to the default one, and its value when the current pinch started
+    private scale: number = 1;
+    private pinchStartScale: number = 1;
     
-    // Physics state
-    private velocity = { x: 0, y: 0 };
+    // Page elements to stand on, only set in platform mode
+    private platforms: PlatformTracker | null = null;
+
+    // Whether `position` is relative to the viewport or to the document
+    private space!: CoordinateSpace;
+
+    private assetCache: AssetCache;
+    private loadingIndicator!: LoadingIndicator;
+    private speechBubble = new SpeechBubble();
+    private hasAppeared: boolean = false;
+    // Incremented by every model switch, so that a switch overtaken by a later one is dropped
+    private loadRequest: number = 0;
+    private destroyed: boolean = false;
+
+    // Saves position, action and model so the pet comes back after a reload
+    private store!: StateStore;
+
+    private events = new EventEmitter<CharacterEventMap>();
     
     private model: CharacterModel;
+    // Model whose assets are currently held in the render context
+    private loadedModel: CharacterModel | null = null;
     private character!: SpineCharacter;
     
-    private currentAction: Action = {
-        animation: "Relax",
-        direction: "right",
-        timestamp: 0
-    };
-    
-    private position: { x: number; y: number } = {
-        x: -1, // will be set to a random value
-        y: 1e9 // will be bounded to the bottom of the window
-    };
-
-    private animationFrameId: number | null = null;
+    // Drives `renderFrame` for standalone pets, those of a `PetManager` are driven by it
+    private scheduler: FrameScheduler;
+    private scheduling: Required<SchedulerOptions>;
 
-    // Vehicle can't sit & sleep
-    private isVehicle: boolean = false;
-    
-    // Added: Mark whether it has Special animation
-    private hasSpecialAnimation: boolean = true;
+    // Position, physics and behavior, which this class draws
+    private simulation!: PetSimulation;
+    // Skeleton animation played for each state of the simulation, when named differently
+    private animationAliases: AnimationAliases = {};
 
     private allowInteract: boolean = true;
 
@@ -130,14 +122,16 @@ export class Character {
     
     // Event handler references for proper removal
     private handleMouseMoveRef: (event: MouseEvent) => void;
-    private handleDragRef: (event: MouseEvent | TouchEvent) => void;
-    private handleDragEndRef: (event: MouseEvent | TouchEvent) => void;
-    private handleDragStartRef: (event: MouseEvent | TouchEvent) => void;
+    private handleDragRef: (event: MouseEvent) => void;
+    private handleDragEndRef: (event: MouseEvent) => void;
+    private handleDragStartRef: (event: MouseEvent) => void;
     private handleCanvasClickRef: (event: MouseEvent) => void;
+    private handleKeyDownRef!: (event: KeyboardEvent) => void;
     private onWindowResizeRef: () => void;
     private onBeforeUnloadRef: () => void;
+    private onVisibilityChangeRef: () => void;
     
-    constructor(canvasId: string, onContextMenu: (e: MouseEvent | TouchEvent) => void, initialCharacter: CharacterModel, allowInteract: boolean = true) {
+    constructor(canvasId: string, onContextMenu: (e: MouseEvent | TouchEvent | KeyboardEvent) => void, initialCharacter: CharacterModel, allowInteract: boolean = true, options: CharacterOptions = {}) {
         this.allowInteract = allowInteract;
         this.model = initialCharacter;
         this.mvp = new webgl.Matrix4();
@@ -150,44 +144,110 @@ export class Character {
         this.handleDragStartRef = this.handleDragStart.bind(this);
         this.handleCanvasClickRef = this.handleCanvasClick.bind(this);
         this.onWindowResizeRef = this.onWindowResize.bind(this);
+        this.onVisibilityChangeRef = () => {
+            // Don't simulate the time spent in a hidden tab in one go
+            if (!document.hidden) {
+                this.simulation.resetClock();
+            }
+        };
+        this.scheduler = new FrameScheduler(() => this.renderFrame());
+        this.scheduling = { ...DEFAULT_SCHEDULER_OPTIONS, ...options.scheduler };
         this.onBeforeUnloadRef = () => {
             // Force save on page unload
             this.lastSaveTime = 0; 
-            this.saveToSessionStorage();
+            this.saveState();
         };
         
+        this.space = new CoordinateSpace(options.coordinateSpace, options.container);
+        this.effects = resolveEffectOptions(options.effects);
+        this.hitTestMode = options.hitTest ?? "pixel";
+        this.assetCache = options.assetCache ?? defaultAssetCache;
+        this.store = new StateStore(canvasId, options.persistence, model => {
+            // Changed in another tab, don't announce it back
+            if (model.id !== this.model.id) {
+                this.switchModel(model).catch(() => undefined);
+            }
+        });
+
         // Initialize canvas and WebGL
         this.initializeCanvas(canvasId);
-        this.initializeWebGL();
+        this.initializeWebGL(options.renderContext);
+        if (options.platforms) {
+            this.platforms = new PlatformTracker(options.platforms, this.space);
+        }
+        this.initializeSimulation(options);
         this.setupEventListeners(onContextMenu);
+        this.loadingIndicator = new LoadingIndicator();
         
         // Load initial character
-        this.loadFromSessionStorage();
-        this.loadCharacterModel(this.model);
+        this.loadState();
+        this.placeInitially();
+        this.loadInitialModel(initialCharacter, options.fallbackModel);
 
         window.addEventListener('beforeunload', this.onBeforeUnloadRef);
+        document.addEventListener('visibilitychange', this.onVisibilityChangeRef);
+    }
+
+    /**
+     * Load the saved model, or the one given by the host if it fails, e.g. because the saved one
+     * no longer exists, and the fallback model as a last resort.
+     */
+    private async loadInitialModel(initialCharacter: CharacterModel, fallbackModel?: CharacterModel): Promise<void> {
+        const candidates = [this.model, initialCharacter, fallbackModel];
+        for (let i = 0; i < candidates.length; i++) {
+            const model = candidates[i];
+            if (!model || candidates.indexOf(model) !== i) {
+                continue;
+            }
+            if (i > 0) {
+                console.log("Loading", model === fallbackModel ? "fallback character" : "initial character", getModelName(model));
+            }
+            try {
+                await this.switchModel(model);
+                return;
+            } catch {
+                // Errors are reported through the `loadError` event
+            }
+        }
+    }
+
+    public on<K extends keyof CharacterEventMap>(event: K, listener: EventListener<CharacterEventMap[K]>): void {
+        this.events.on(event, listener);
+    }
+
+    public off<K extends keyof CharacterEventMap>(event: K, listener: EventListener<CharacterEventMap[K]>): void {
+        this.events.off(event, listener);
+    }
+
+    public once<K extends keyof CharacterEventMap>(event: K, listener: EventListener<CharacterEventMap[K]>): void {
+        this.events.once(event, listener);
     }
 
     public destroy(): void {
+        // Model switches still downloading are dropped once they finish
+        this.destroyed = true;
+
         // Stop animation
-        if (this.animationFrameId !== null) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = null;
-        }
+        this.scheduler.stop();
 
         // Remove event listeners
         document.removeEventListener('mousemove', this.handleMouseMoveRef);
         document.removeEventListener('mousemove', this.handleDragRef);
         document.removeEventListener('mouseup', this.handleDragEndRef);
-        document.removeEventListener('touchmove', this.handleDragRef);
-        document.removeEventListener('touchend', this.handleDragEndRef);
         window.removeEventListener('resize', this.onWindowResizeRef);
         window.removeEventListener('beforeunload', this.onBeforeUnloadRef);
+        document.removeEventListener('visibilitychange', this.onVisibilityChangeRef);
+        this.platforms?.destroy();
+        this.simulation.destroy();
+        this.store.destroy();
+        this.loadingIndicator.hide();
+        this.speechBubble.hide();
 
         if (this.canvas) {
             this.canvas.removeEventListener('click', this.handleCanvasClickRef);
             this.canvas.removeEventListener('mousedown', this.handleDragStartRef);
-            this.canvas.removeEventListener('touchstart', this.handleDragStartRef);
+            this.canvas.removeEventListener('keydown', this.handleKeyDownRef);
+            this.gestures.destroy();
             
             // Remove canvas from DOM
             if (this.canvas.parentNode) {
@@ -201,186 +261,188 @@ export class Character {
             this.character.state.clearListeners();
         }
 
-        // Clean up WebGL resources
-        if (this.gl) {
-            this.releaseWebGLResources();
+        // Clean up WebGL resources and assets, unless they are shared with other pets
+        if (this.renderContext) {
+            if (this.loadedModel) {
+                this.renderContext.releaseModel(this.loadedModel);
+                this.loadedModel = null;
+            }
+            if (!this.renderContext.shared) {
+                this.renderContext.dispose();
+            }
         }
 
-        // Clear session storage if needed (optional, but keep it for completeness if requested)
-        // sessionStorage.removeItem('arkpets-character-' + this.canvas.id);
-
-        // Clear asset manager
-        if (this.assetManager) {
-            this.assetManager.dispose();
-        }
+        this.events.emit('destroyed', undefined);
+        this.events.removeAllListeners();
     }
 
     private initializeCanvas(canvasId: string): void {
         this.canvas = document.createElement('canvas');
         this.canvas.classList.add("arkpets-canvas");
         this.canvas.id = canvasId;
-        document.body.appendChild(this.canvas);
+        if (this.space.mode === "document") {
+            this.canvas.classList.add("arkpets-canvas-document");
+            // The container must be positioned for the canvas to be placed inside it
+            if (this.space.container && getComputedStyle(this.space.container).position === "static") {
+                this.space.container.style.position = "relative";
+            }
+        }
+        this.space.getParent().appendChild(this.canvas);
         this.canvas.style.pointerEvents = "none";
+
+        // Reachable with the keyboard, announced as a button opening a menu
+        this.canvas.setAttribute('role', 'button');
+        this.canvas.setAttribute('aria-haspopup', 'menu');
+        this.canvas.tabIndex = this.allowInteract ? 0 : -1;
+        this.updateAccessibleLabel();
         
         // Add window resize listener
         window.addEventListener('resize', this.onWindowResizeRef);
     }
 
-    private initializeWebGL(): void {
-        this.gl = this.canvas.getContext("webgl", {
-            alpha: true,
-            premultipliedAlpha: false
-        }) as WebGLRenderingContext;
-
-        if (!this.gl) {
-            throw new Error('WebGL is unavailable.');
+    private initializeWebGL(sharedContext?: RenderContext): void {
+        if (sharedContext) {
+            this.renderContext = sharedContext;
+            this.displayContext = this.canvas.getContext("2d");
+            if (!this.displayContext) {
+                throw new Error('Canvas 2D is unavailable.');
+            }
+        } else {
+            this.renderContext = new RenderContext(this.canvas);
         }
+        this.gl = this.renderContext.gl;
+    }
 
-        // Set up WebGL context
-        this.gl.enable(this.gl.BLEND);
-        this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
-        
-        this.initFramebuffer();
-        
-        // Create WebGL objects
-        const managedContext = new webgl.ManagedWebGLRenderingContext(this.gl);
-        this.shader = webgl.Shader.newColoredTextured(managedContext);
-        this.batcher = new webgl.PolygonBatcher(managedContext, false);
-        this.skeletonRenderer = new webgl.SkeletonRenderer(managedContext, false);
-        this.skeletonRenderer.premultipliedAlpha = true;
-        this.assetManager = new webgl.AssetManager(managedContext);
+    private initializeSimulation(options: CharacterOptions): void {
+        const neighbors = options.neighbors;
+        const platforms = this.platforms;
+        this.simulation = new PetSimulation({
+            getBounds: () => this.space.getSize(),
+            getLedges: platforms ? () => platforms.getLedges() : undefined,
+            // Pets still loading don't take part
+            getNeighbors: neighbors ? () => neighbors().filter(pet => pet.character).map(pet => pet.simulation) : undefined,
+            isReducedMotion: () => this.isReducedMotion(),
+            platformEdges: options.platforms?.edges,
+            physics: options.physics,
+            clock: options.clock,
+            random: options.random,
+        });
+
+        this.simulation.on('actionChange', ({ action, from, loop }) => {
+            if (this.character) {
+                this.character.state.setAnimation(0, this.getSkeletonAnimation(action.animation), loop);
+            }
+            console.debug("Play action", action);
+            this.events.emit('actionChange', action);
+            if (from === "Sleep" && action.animation !== "Sleep") {
+                this.sayFromDialogue("wake");
+            }
+        });
+        this.simulation.on('landed', position => this.events.emit('landed', position));
     }
 
-    private setupEventListeners(onContextMenu: (e: MouseEvent | TouchEvent) => void): void {
+    private setupEventListeners(onContextMenu: (e: MouseEvent | TouchEvent | KeyboardEvent) => void): void {
         // Track mouse position to decide mouse over
         document.addEventListener('mousemove', this.handleMouseMoveRef);
 
-        if (this.allowInteract) {
-            // React to click events
-            this.canvas.addEventListener('click', this.handleCanvasClickRef);
-
-            // Context menu
-            this.canvas.addEventListener('contextmenu', onContextMenu);
+        // Listen even when not interactive, so that `setAllowInteract` can turn it on later.
+        // The canvas of a non-interactive pet doesn't receive pointer events anyway
+
+        // React to click events
+        this.canvas.addEventListener('click', this.handleCanvasClickRef);
+
+        // Context menu
+        this.canvas.addEventListener('contextmenu', onContextMenu);
+
+        // Keyboard, for the focused pet
+        this.handleKeyDownRef = e => this.handleKeyDown(e, onContextMenu);
+        this.canvas.addEventListener('keydown', this.handleKeyDownRef);
+
+        // Mouse events
+        this.canvas.addEventListener('mousedown', this.handleDragStartRef);
+        document.addEventListener('mousemove', this.handleDragRef);
+        document.addEventListener('mouseup', this.handleDragEndRef);
+
+        // Touch gestures. Long press opens the menu, mobile browsers don't reliably fire `contextmenu`
+        this.gestures = new TouchGestures(this.canvas, {
+            onTap: e => this.handleCanvasClick(e),
+            onLongPress: e => onContextMenu(e),
+            onDragStart: (touch, e) => this.startDrag(touch.clientX, touch.clientY, e),
+            onDragMove: (touch, e) => this.moveDrag(touch.clientX, touch.clientY, e.timeStamp),
+            onDragEnd: e => this.endDrag(e),
+            onPinchStart: () => {
+                this.pinchStartScale = this.scale;
+            },
+            onPinch: ratio => this.setScale(this.pinchStartScale * ratio),
+        });
+    }
 
-            // Mouse events
-            this.canvas.addEventListener('mousedown', this.handleDragStartRef);
-            document.addEventListener('mousemove', this.handleDragRef);
-            document.addEventListener('mouseup', this.handleDragEndRef);
-            
-            // Touch events
-            this.canvas.addEventListener('touchstart', this.handleDragStartRef);
-            document.addEventListener('touchmove', this.handleDragRef);
-            document.addEventListener('touchend', this.handleDragEndRef);
-        }
-    }
-
-    private initFramebuffer(): void {
-        // Create and bind framebuffer
-        this.framebuffer = this.gl.createFramebuffer()!;
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
-
-        // Create and bind texture
-        this.framebufferTexture = this.gl.createTexture()!;
-        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
-        this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.canvas.width, this.canvas.height, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
-        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
-
-        // Attach texture to framebuffer
-        this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0, this.gl.TEXTURE_2D, this.framebufferTexture, 0);
-
-        // Create quad buffer for second pass
-        this.quadBuffer = this.gl.createBuffer()!;
-        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.quadBuffer);
-        this.gl.bufferData(this.gl.ARRAY_BUFFER, new Float32Array([
-            -1, -1,  // Bottom left
-             1, -1,  // Bottom right
-            -1,  1,  // Top left
-             1,  1   // Top right
-        ]), this.gl.STATIC_DRAW);
-
-        // Create and compile outline shader
-        const vertexShader = this.gl.createShader(this.gl.VERTEX_SHADER)!;
-        this.gl.shaderSource(vertexShader, outlineVertexShader);
-        this.gl.compileShader(vertexShader);
-
-        const fragmentShader = this.gl.createShader(this.gl.FRAGMENT_SHADER)!;
-        this.gl.shaderSource(fragmentShader, outlineFragmentShader);
-        this.gl.compileShader(fragmentShader);
-
-        // Check compilation status
-        if (!this.gl.getShaderParameter(vertexShader, this.gl.COMPILE_STATUS)) {
-            console.error('Vertex shader compilation failed:', this.gl.getShaderInfoLog(vertexShader));
-        }
-        if (!this.gl.getShaderParameter(fragmentShader, this.gl.COMPILE_STATUS)) {
-            console.error('Fragment shader compilation failed:', this.gl.getShaderInfoLog(fragmentShader));
-        }
-        
-        this.outlineShader = this.gl.createProgram()!;
-        this.gl.attachShader(this.outlineShader, vertexShader);
-        this.gl.attachShader(this.outlineShader, fragmentShader);
-        this.gl.linkProgram(this.outlineShader);
-        
-        if (!this.gl.getProgramParameter(this.outlineShader, this.gl.LINK_STATUS)) {
-            console.error('Program linking failed:', this.gl.getProgramInfoLog(this.outlineShader));
+    /**
+     * Switch to another model, e.g. another skin of the same operator. The pet keeps its position,
+     * direction and action, unless the new skeleton lacks that animation and falls back to `Relax`.
+     * The current character keeps playing until the new one is ready, and is left intact if loading
+     * fails. Rejects with a `LoadError`.
+     * With persistence sync enabled, the same pet in other tabs switches too.
+     */
+    public async loadCharacterModel(model: CharacterModel): Promise<void> {
+        if (await this.switchModel(model)) {
+            this.store.publishModel(model);
         }
-        
-        // Clean up shaders as they're now part of the program
-        this.gl.deleteShader(vertexShader);
-        this.gl.deleteShader(fragmentShader);
     }
 
-    public async loadCharacterModel(model: CharacterModel) {
-        this.model = model;
-        
-        function encodeUriPath(path: string): string {
-            return encodeURIComponent(path).replace(/%2F/g, '/');
+    /**
+     * Resolves to false, without any event, if another switch started or the pet was destroyed
+     * before this one finished; only the latest switch applies.
+     */
+    private async switchModel(model: CharacterModel): Promise<boolean> {
+        if (this.destroyed) {
+            return false;
         }
-        console.log("Downloading character assets for", model.name);
-
-        const resources = [model.skeleton, model.atlas, model.texture];
-        const basePath = model.resourcePath ?? "";
+        const request = ++this.loadRequest;
+        const isStale = () => this.destroyed || request !== this.loadRequest;
+        this.loadingIndicator.show(this.canvas);
         
         try {
-            const objectUrls = await Promise.all(resources.map(async resource => {
-                const response = await fetch(basePath + encodeUriPath(resource));
-                if (!response.ok) throw new Error(`Failed to fetch ${resource}: ${response.statusText}`);
-                const blob = await response.blob();
-                return URL.createObjectURL(blob);
-            }));
-
-            resources.forEach((resource, i) => {
-                this.assetManager.setRawDataURI(resource, objectUrls[i]);
-            });
-
-            this.assetManager.removeAll();
-            
-            // Load skeleton and atlas
-            await new Promise<void>((resolve, reject) => {
-                this.assetManager.loadBinary(model.skeleton, () => {
-                    this.assetManager.loadTextureAtlas(model.atlas, () => {
-                        console.log("Loaded character assets for", model.name);
-                        // Cleanup object URLs and raw data URIs
-                        resources.forEach((resource, i) => {
-                            URL.revokeObjectURL(objectUrls[i]);
-                            this.assetManager.setRawDataURI(resource, ""); 
-                        });
-                        resolve();
-                    }, (error) => reject(new Error(`Failed to load atlas: ${error}`)));
-                }, (error) => reject(new Error(`Failed to load skeleton: ${error}`)));
+            await this.renderContext.loadModel(model, this.assetCache, (loaded, total) => {
+                if (!isStale()) {
+                    this.loadingIndicator.setProgress(loaded, total);
+                    this.events.emit('loadProgress', { model, loaded, total });
+                }
             });
-
-            if (this.animationFrameId !== null) {
-                cancelAnimationFrame(this.animationFrameId);
-                this.animationFrameId = null;
+        } catch (error) {
+            if (isStale()) {
+                return false;
             }
-            requestAnimationFrame(this.load.bind(this));
+            this.loadingIndicator.hide();
+            throw this.reportLoadError(error, model);
+        }
+
+        if (isStale()) {
+            this.renderContext.releaseModel(model);
+            return false;
+        }
+        this.loadingIndicator.hide();
 
+        try {
+            this.load(model);
         } catch (error) {
-            console.error("Failed to load character assets:", error);
+            this.renderContext.releaseModel(model);
+            throw this.reportLoadError(error, model);
         }
+
+        // Release the previous model only now, it may be the same one
+        if (this.loadedModel) {
+            this.renderContext.releaseModel(this.loadedModel);
+        }
+        this.loadedModel = model;
+        return true;
+    }
+
+    private reportLoadError(error: unknown, model: CharacterModel): LoadError {
+        const loadError = toLoadError(error, model);
+        console.error("Failed to load character assets:", loadError);
+        this.events.emit('loadError', { model, error: loadError });
+        return loadError;
     }
 
     public fadeOut(): Promise<void> {
@@ -392,6 +454,7 @@ export class Character {
                 
                 if (opacity <= 0) {
                     clearInterval(fadeInterval);
+                    this.events.emit('hidden', undefined);
                     resolve();
                 }
             }, 30);
@@ -401,77 +464,90 @@ export class Character {
     private lastSaveTime: number = 0;
     private readonly SAVE_INTERVAL = 1000; // 1 second
 
-    private saveToSessionStorage(): void {
+    private saveState(): void {
         const now = Date.now();
         if (now - this.lastSaveTime < this.SAVE_INTERVAL) {
             return;
         }
         this.lastSaveTime = now;
 
-        sessionStorage.setItem('arkpets-character-' + this.canvas.id, JSON.stringify({
-            position: this.position,
-            currentAction: this.currentAction,
-            characterResource: this.model
-        }));
+        this.store.save({
+            position: this.simulation.getPosition(),
+            scale: this.scale,
+            coordinateSpace: this.space.getStoredKind(),
+            currentAction: this.simulation.getAction(),
+            model: this.model
+        });
     }
 
-    private loadFromSessionStorage(): void {
-        const saved = sessionStorage.getItem('arkpets-character-' + this.canvas.id);
-        if (saved) {
-            const state = JSON.parse(saved);
-            this.position = state.position;
-            this.currentAction = state.currentAction;
-            this.model = state.characterResource;
+    private loadState(): void {
+        const state = this.store.load();
+        if (state) {
+            this.scale = clampScale(state.scale);
+            const position = this.space.convertStored(state.position, state.coordinateSpace);
+            this.simulation.restore(position ?? this.simulation.getPosition(), state.currentAction);
+            if (state.model) {
+                this.model = state.model;
+            }
         }
     }
 
-    private load(): void {
-        if (this.assetManager.isLoadingComplete()) {
-            this.character = this.loadCharacter(this.model, BASE_SKELETON_SCALE);
+    private load(model: CharacterModel): void {
+        const skeletonData = this.renderContext.getSkeletonData(model, BASE_SKELETON_SCALE);
+        const aliases = resolveAnimationAliases(skeletonData.animations.map(animation => animation.name), model.animationAliases);
+        const behavior = this.resolveBehaviorProfile(model, skeletonData, aliases);
 
-            if (this.getAnimationNames().indexOf(this.currentAction.animation) === -1) {
-                // If switching from character to vehicle, make sure it's not in `Sleep` or `Sit`
-                this.currentAction.animation = "Relax";
-                this.currentAction.timestamp = 0;
-            }
-            this.character.state.setAnimation(0, this.currentAction.animation, true);
-            this.character.state.update(this.currentAction.timestamp);
+        // Nothing can fail past this point, switch to the new model
+        this.model = model;
+        this.animationAliases = aliases;
+        this.updateAccessibleLabel();
+        this.simulation.setBehavior(behavior);
+        this.character = this.loadCharacter(skeletonData);
 
-            this.lastFrameTime = Date.now() / 1000;
+        const action = this.simulation.getAction();
+        this.character.state.setAnimation(0, this.getSkeletonAnimation(action.animation), true);
+        this.character.state.update(action.timestamp);
 
-            // Generate random x position if it's not set yet
-            if (this.position.x === -1) {
-                this.position.x = Math.random() * (window.innerWidth - this.canvas.offsetWidth);
-            }
+        this.simulation.resetClock();
 
-            requestAnimationFrame(this.render.bind(this));
-        } else {
-            console.debug("Loading assets of character", this.model.name, "progress", this.assetManager.getLoaded(), "/", this.assetManager.getToLoad());
-            requestAnimationFrame(this.load.bind(this));
+        this.events.emit('loaded', this.model);
+
+        if (!this.hasAppeared) {
+            this.hasAppeared = true;
+            this.sayFromDialogue("appear");
+        }
+
+        // Pets drawn with a shared context are driven by their PetManager
+        if (!this.renderContext.shared) {
+            this.scheduler.start();
         }
     }
 
-    private loadCharacter(resource: CharacterModel, scale: number = 1.0): SpineCharacter {    
-        const atlas = this.assetManager.get(resource.atlas);
-        const atlasLoader = new spine.AtlasAttachmentLoader(atlas);
-        const skeletonBinary = new spine.SkeletonBinary(atlasLoader);
+    /**
+     * Size and place the canvas before anything is loaded, so that the loading indicator shows up
+     * where the pet will appear.
+     */
+    private placeInitially(): void {
+        this.updateCanvasSize();
+        this.simulation.place();
+        this.updateCanvasPosition();
+    }
 
-        skeletonBinary.scale = scale;
-        const skeletonData = skeletonBinary.readSkeletonData(this.assetManager.get(resource.skeleton));
-        const skeleton = new spine.Skeleton(skeletonData);
+    // Move the canvas to the simulated position
+    private updateCanvasPosition(): void {
+        const position = this.simulation.getPosition();
+        this.canvas.style.transform = `translate(${position.x}px, ${position.y}px)`;
+    }
 
-        if (!skeletonData.findAnimation("Sit") || !skeletonData.findAnimation("Sleep")) {
-            this.isVehicle = true;
-        }
-        
-        // Check if has Special animation
-        this.hasSpecialAnimation = !!skeletonData.findAnimation("Special");
+    private loadCharacter(skeletonData: spine.SkeletonData): SpineCharacter {    
+        const skeleton = new spine.Skeleton(skeletonData);
 
         const animationStateData = new spine.AnimationStateData(skeleton.data);
 
         // Animation transitions
-        this.getAnimationNames().forEach(fromAnim => {
-            this.getAnimationNames().forEach(toAnim => {
+        const animations = this.getAnimationNames().map(name => this.getSkeletonAnimation(name));
+        animations.forEach(fromAnim => {
+            animations.forEach(toAnim => {
                 if (fromAnim !== toAnim) {
                     animationStateData.setMix(fromAnim, toAnim, 0.3);
                 }
@@ -479,16 +555,13 @@ export class Character {
         });
 
         const animationState = new spine.AnimationState(animationStateData);
-        animationState.setAnimation(0, "Relax", true);
+        animationState.setAnimation(0, this.getSkeletonAnimation("Relax"), true);
 
         // Listen for animation completion
         const self = this;
         class AnimationStateAdapter extends spine.AnimationStateAdapter {
             complete(entry: spine.TrackEntry): void {
-                const action = self.nextAction(self.currentAction);
-                self.currentAction = action;
-                console.debug("Play action", action)
-                animationState.setAnimation(0, action.animation, true);
+                self.simulation.onAnimationComplete(entry.loop);
             }
         }
         animationState.addListener(new AnimationStateAdapter());
@@ -500,16 +573,37 @@ export class Character {
         skeleton.x = this.canvas.width / 2;
         skeleton.y = 0;
 
-        // Update framebuffer texture size
-        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
-        this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.canvas.width, this.canvas.height, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
-
         return {
             skeleton,
             state: animationState,
         };
     }
 
+    // Name of the skeleton animation played for a state
+    private getSkeletonAnimation(state: string): string {
+        return this.animationAliases[state] ?? state;
+    }
+
+    private resolveBehaviorProfile(resource: CharacterModel, skeletonData: spine.SkeletonData, aliases: AnimationAliases): BehaviorProfile {
+        // States are looked up through their aliases
+        const hasAnimation = (name: string) => !!skeletonData.findAnimation(aliases[name] ?? name);
+        if (resource.behavior) {
+            try {
+                validateBehaviorProfile(resource.behavior, hasAnimation);
+                return resource.behavior;
+            } catch (error) {
+                console.error("Invalid behavior profile of", getModelName(resource), ", falling back to default:", error);
+            }
+        }
+
+        const profile = getDefaultBehaviorProfile(hasAnimation);
+        const missing = profile.animations.filter(name => !hasAnimation(name));
+        if (missing.length > 0) {
+            throw new MissingAnimationError(missing, resource);
+        }
+        return profile;
+    }
+
     // Mouse position (client, no transform, no supersampling)
     private currentMousePos = { x: 0, y: 0 };
 
@@ -518,343 +612,381 @@ export class Character {
         this.currentMousePos.y = event.clientY;
     }
 
+    // "pixel" reads the drawn character back from the GPU, "geometry" tests the skeleton's shapes
+    private hitTestMode: HitTestMode = "pixel";
+    private hitTester = new GeometryHitTester();
+
     private frameCount: number = 0;
     private readonly HIT_TEST_INTERVAL = 5; // Check every 5 frames
 
     private lastMouseX: number = -1;
     private lastMouseY: number = -1;
 
-    private render(): void {
-        this.frameCount++;
-        const now = Date.now() / 1000;
-        const delta = now - this.lastFrameTime;
-        this.lastFrameTime = now;
-        this.currentAction.timestamp += delta;
-
-        // Apply physics when not dragging
-        if (!this.isDragging) {
-            // Apply gravity
-            this.velocity.y += GRAVITY * delta;
-            
-            // Apply drag
-            this.velocity.x *= DRAG;
-            this.velocity.y *= DRAG;
-            if (Math.abs(this.velocity.x) < MIN_VELOCITY) {
-                this.velocity.x = 0;
-            }
-            if (Math.abs(this.velocity.y) < MIN_VELOCITY) {
-                this.velocity.y = 0;
-            }
-            
-            // Clamp velocities
-            this.velocity.x = Math.max(-MAX_VELOCITY, Math.min(MAX_VELOCITY, this.velocity.x));
-            this.velocity.y = Math.max(-MAX_VELOCITY, Math.min(MAX_VELOCITY, this.velocity.y));
-            
-            // Update position
-            this.position.x += this.velocity.x * delta;
-            this.position.y += this.velocity.y * delta;
-            
-            // Window bounds collision
-            const maxX = window.innerWidth - this.canvas.offsetWidth;
-            const maxY = window.innerHeight - this.canvas.offsetHeight;
-            
-            // Bounce off walls
-            if (this.position.x < 0) {
-                this.position.x = 0;
-                this.velocity.x = -this.velocity.x * BOUNCE_DAMPING;
-            } else if (this.position.x > maxX) {
-                this.position.x = maxX;
-                this.velocity.x = -this.velocity.x * BOUNCE_DAMPING;
-            }
-            
-            // Bounce off floor/ceiling
-            if (this.position.y < 0) {
-                this.position.y = 0;
-                this.velocity.y = 0;
-            } else if (this.position.y > maxY) {
-                this.position.y = maxY;
-                this.velocity.y = 0;
-            }
+    /**
+     * Advance the simulation and draw one frame. Called by the pet's own loop,
+     * or by the PetManager that owns it.
+     */
+    public renderFrame(): void {
+        if (!this.character) {
+            return;
         }
-
-        // Move the canvas when "Move" animation is playing
-        if (this.currentAction.animation === "Move") {
-            const movement = MOVING_SPEED * delta;
-            if (this.currentAction.direction === "left") {
-                this.position.x = Math.max(0, this.position.x - movement);
-                // Turn around when reaching left edge
-                if (this.position.x <= 0) {
-                    this.position.x = 0;
-                    this.currentAction.direction = "right";
-                }
-            } else {
-                this.position.x = this.position.x + movement;
-                // Turn around when reaching right edge
-                if (this.position.x >= window.innerWidth - this.canvas.offsetWidth) {
-                    this.position.x = window.innerWidth - this.canvas.offsetWidth;
-                    this.currentAction.direction = "left";
-                }
-            }
+        // Skip frames to stay under the target frame rate, with some tolerance for timer jitter
+        if (this.simulation.getTimeSinceTick() < 1 / this.getTargetFps() - FRAME_TIME_TOLERANCE) {
+            return;
         }
+        this.frameCount++;
+        const delta = this.simulation.tick();
 
-        // Update canvas position to `position`
-        this.canvas.style.transform = `translate(${this.position.x}px, ${this.position.y}px)`;
+        this.updateCanvasPosition();
+        this.speechBubble.update(this.canvas);
 
-        // 1st pass - render Spine character to framebuffer
-        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
-        this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
-        this.gl.clearColor(0, 0, 0, 0);
-        this.gl.clear(this.gl.COLOR_BUFFER_BIT);
-        
         // Apply the resolution-based scale to the skeleton.
-        // scaleX handles both the pixel ratio for high-res and the direction (flipping).
-        // scaleY handles the pixel ratio for high-res.
-        this.character.skeleton.scaleX = (this.currentAction.direction === "left" ? -1 : 1) * this.pixelRatio;
-        this.character.skeleton.scaleY = this.pixelRatio;
+        // scaleX handles the pixel ratio for high-res, the size chosen by the user and the direction (flipping).
+        // scaleY handles the pixel ratio for high-res and the size chosen by the user.
+        const action = this.simulation.getAction();
+        this.character.skeleton.scaleX = (action.direction === "left" ? -1 : 1) * this.pixelRatio * this.scale;
+        this.character.skeleton.scaleY = this.pixelRatio * this.scale;
 
         this.character.state.update(delta);
         this.character.state.apply(this.character.skeleton);
         this.character.skeleton.updateWorldTransform();
 
-        this.shader.bind();
-        this.shader.setUniformi(webgl.Shader.SAMPLER, 0);
-        this.shader.setUniform4x4f(webgl.Shader.MVP_MATRIX, this.mvp.values);
-
-        this.batcher.begin(this.shader);
-        this.skeletonRenderer.premultipliedAlpha = true;
-        this.skeletonRenderer.draw(this.batcher, this.character.skeleton);
-        this.batcher.end();
-
-        this.shader.unbind();
+        // 1st pass - render Spine character to framebuffer
+        this.drawSkeleton();
 
-        // Read pixels before 2nd pass to determine if mouse is over character
+        // Hit test before 2nd pass to determine if mouse is over character
         // Throttle hit testing and only check if mouse moved or character moved
         const mouseMoved = this.currentMousePos.x !== this.lastMouseX || this.currentMousePos.y !== this.lastMouseY;
         if (this.frameCount % this.HIT_TEST_INTERVAL === 0 || mouseMoved) {
             this.lastMouseX = this.currentMousePos.x;
             this.lastMouseY = this.currentMousePos.y;
 
-            const canvasRect = this.canvas.getBoundingClientRect();
-            let pixelX = (this.currentMousePos.x - canvasRect.x) * this.pixelRatio;
-            let pixelY = this.canvas.height - (this.currentMousePos.y - canvasRect.y) * this.pixelRatio;
-            
-            if (pixelX >= 0 && pixelX < this.canvas.width && pixelY >= 0 && pixelY < this.canvas.height) {
-                // Mouse inside canvas. Check whether it's over the character
-                let pixelColor = new Uint8Array(4);
-                this.gl.readPixels(
-                    pixelX, 
-                    pixelY, 
-                    1, 1, 
-                    this.gl.RGBA, 
-                    this.gl.UNSIGNED_BYTE, 
-                    pixelColor
-                );
-                this.isMouseOver = pixelColor[3] !== 0;
-                if (this.allowInteract) {
-                    this.canvas.style.pointerEvents = this.isMouseOver ? 'auto' : 'none';
-                } else {
-                    this.canvas.style.pointerEvents = 'none';
-                }
-            } else {
-                this.isMouseOver = false;
-                this.canvas.style.pointerEvents = 'none';
+            this.isMouseOver = this.testPoint(this.currentMousePos.x, this.currentMousePos.y);
+            this.canvas.style.pointerEvents = this.allowInteract && this.isMouseOver ? 'auto' : 'none';
+        }
+
+        // Custom effects, alternating between the two framebuffers
+        const mainTarget: RenderTarget = { framebuffer: this.renderContext.framebuffer, texture: this.renderContext.framebufferTexture };
+        let source = mainTarget;
+        this.gl.disable(this.gl.BLEND);
+        for (const effect of this.effects.custom) {
+            const program = this.renderContext.getEffectProgram(effect.name);
+            if (!program) {
+                continue;
             }
+            const target = source === mainTarget ? this.renderContext.getEffectTarget() : mainTarget;
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, target.framebuffer);
+            this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+            this.gl.clearColor(0, 0, 0, 0);
+            this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+            this.drawEffect(program, source.texture, { ...getEffect(effect.name)?.uniforms, ...effect.uniforms });
+            source = target;
         }
+        this.gl.enable(this.gl.BLEND);
 
-        // 2nd pass - render to screen with outline effect
+        // Last pass - render to screen with the built-in effects
         this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
         this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
         this.gl.clearColor(0, 0, 0, 0);
         this.gl.clear(this.gl.COLOR_BUFFER_BIT);
 
-        this.gl.useProgram(this.outlineShader);
+        // Fade in and out of grayscale
+        const grayscaleTarget = this.effects.grayscaleWhenSleeping && action.animation === "Sleep" ? 1 : 0;
+        const grayscaleStep = delta / GRAYSCALE_FADE_TIME;
+        this.grayscale = grayscaleTarget > this.grayscale
+            ? Math.min(grayscaleTarget, this.grayscale + grayscaleStep)
+            : Math.max(grayscaleTarget, this.grayscale - grayscaleStep);
+
+        // Outline and glow only in interactive mode, non-interactive pets become see-through instead
+        const highlighted = this.allowInteract && this.isMouseOver;
+        this.drawEffect(this.renderContext.outlineProgram, source.texture, {
+            u_outlineColor: this.effects.outlineColor,
+            u_outlineWidth: highlighted ? this.effects.outlineWidth * this.pixelRatio : 0,
+            u_glowColor: this.effects.glowColor,
+            u_glowWidth: highlighted ? this.effects.glowWidth * this.pixelRatio : 0,
+            u_alpha: !this.allowInteract && this.isMouseOver ? this.effects.hoverAlpha : 1,
+            u_tint: this.effects.tint,
+            u_brightness: this.effects.brightness,
+            u_contrast: this.effects.contrast,
+            u_saturation: this.effects.saturation,
+            u_grayscale: this.grayscale,
+        });
 
-        // Set uniforms
-        const uTexture = this.gl.getUniformLocation(this.outlineShader, "u_texture");
-        const uOutlineColor = this.gl.getUniformLocation(this.outlineShader, "u_outlineColor");
-        const uOutlineWidth = this.gl.getUniformLocation(this.outlineShader, "u_outlineWidth");
-        const uTextureSize = this.gl.getUniformLocation(this.outlineShader, "u_textureSize");
-        const uAlpha = this.gl.getUniformLocation(this.outlineShader, "u_alpha");
+        // Copy the result from the bottom-left corner of the shared canvas
+        if (this.displayContext) {
+            const sharedCanvas = this.renderContext.canvas;
+            this.displayContext.clearRect(0, 0, this.canvas.width, this.canvas.height);
+            this.displayContext.drawImage(
+                sharedCanvas,
+                0, sharedCanvas.height - this.canvas.height, this.canvas.width, this.canvas.height,
+                0, 0, this.canvas.width, this.canvas.height
+            );
+        }
 
-        this.gl.uniform1i(uTexture, 0); // Use texture unit 0 for spine character
-        this.gl.uniform4f(uOutlineColor, 1.0, 1.0, 0.0, 1.0); // yellow
-        this.gl.uniform1f(uOutlineWidth, this.allowInteract && this.isMouseOver ? 2.0 * this.pixelRatio : 0.0); // Show outline only in interactive mode
-        this.gl.uniform2i(uTextureSize, this.canvas.width, this.canvas.height);
-        this.gl.uniform1f(uAlpha, (!this.allowInteract && this.isMouseOver) ? 0.3 : 1.0); // Reduce opacity when non-interactive and mouse over
+        this.saveState();
+    }
 
-        // Bind framebuffer texture
-        this.gl.activeTexture(this.gl.TEXTURE0);
-        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
+    private drawSkeleton(): void {
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.renderContext.framebuffer);
+        this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+        this.gl.clearColor(0, 0, 0, 0);
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT);
 
-        // Draw quad to canvas
-        const aPosition = this.gl.getAttribLocation(this.outlineShader, "a_position");
-        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.quadBuffer);
-        this.gl.enableVertexAttribArray(aPosition);
-        this.gl.vertexAttribPointer(aPosition, 2, this.gl.FLOAT, false, 0, 0);
-        this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+        const { shader, batcher, skeletonRenderer } = this.renderContext;
+        shader.bind();
+        shader.setUniformi(webgl.Shader.SAMPLER, 0);
+        shader.setUniform4x4f(webgl.Shader.MVP_MATRIX, this.mvp.values);
 
-        this.saveToSessionStorage();
+        batcher.begin(shader);
+        skeletonRenderer.premultipliedAlpha = true;
+        skeletonRenderer.draw(batcher, this.character.skeleton);
+        batcher.end();
 
-        // Store the animation frame ID
-        this.animationFrameId = requestAnimationFrame(this.render.bind(this));
+        shader.unbind();
     }
 
-    private randomPick(probabilities: number[]): number {
-        let random = Math.random();
-        let cumulativeProb = 0;
-        for (let i = 0; i < probabilities.length; i++) {
-            cumulativeProb += probabilities[i];
-            if (random <= cumulativeProb) {
-                return i;
-            }
+    /**
+     * Whether the character covers a point of the window. In pixel mode, the skeleton must have
+     * just been drawn to the framebuffer.
+     */
+    private testPoint(clientX: number, clientY: number): boolean {
+        // Skeleton world coordinates are device pixels of the canvas, from its bottom left corner
+        const canvasRect = this.canvas.getBoundingClientRect();
+        const x = (clientX - canvasRect.x) * this.pixelRatio;
+        const y = this.canvas.height - (clientY - canvasRect.y) * this.pixelRatio;
+        if (x < 0 || x >= this.canvas.width || y < 0 || y >= this.canvas.height) {
+            return false;
+        }
+
+        if (this.hitTestMode === "geometry") {
+            return this.hitTester.containsPoint(this.character.skeleton, x, y);
         }
-        throw new Error("Invalid probabilities: " + probabilities);
+
+        // Reading back stalls the GPU pipeline, but is exact to the pixel
+        const pixelColor = new Uint8Array(4);
+        this.gl.readPixels(x, y, 1, 1, this.gl.RGBA, this.gl.UNSIGNED_BYTE, pixelColor);
+        return pixelColor[3] !== 0;
     }
 
-    private turnDirection(current: Direction): Direction {
-        return current === "left" ? "right" : "left";
+    /**
+     * Whether the character is drawn at a point of the window, e.g. to forward pointer events
+     * from the host page. Uses the pet's hit test mode.
+     */
+    public hitTest(clientX: number, clientY: number): boolean {
+        if (!this.character) {
+            return false;
+        }
+        if (this.hitTestMode === "pixel") {
+            // The framebuffer may hold another pet or an effect pass by now
+            this.drawSkeleton();
+        }
+        return this.testPoint(clientX, clientY);
     }
 
-    private nextAction(current: Action): Action {
-        const animeIndex = this.getAnimationNames().indexOf(current.animation);
-        const nextIndexProb = this.getAnimationMarkov()[animeIndex];
-        const nextAnimIndex = this.randomPick(nextIndexProb);
-        const nextAnim = this.getAnimationNames()[nextAnimIndex];
+    /**
+     * Draw the full-screen quad with an effect program, reading the character from `texture`.
+     */
+    private drawEffect(program: EffectProgram, texture: WebGLTexture, uniforms: { [name: string]: UniformValue }): void {
+        this.gl.useProgram(program.program);
+
+        // A shared framebuffer texture may be larger than this character
+        const textureSize = this.renderContext.getTextureSize();
 
-        let nextDirection = current.direction;
-        if (current.animation === "Relax" && nextAnim === "Move") {
-            nextDirection = Math.random() < 0.4 ? this.turnDirection(current.direction) : current.direction;
+        program.setUniform("u_texture", 0); // Use texture unit 0 for spine character
+        program.setUniform("u_textureSize", [textureSize.width, textureSize.height]);
+        program.setUniform("u_texCoordScale", [this.canvas.width / textureSize.width, this.canvas.height / textureSize.height]);
+        program.setUniform("u_time", (performance.now() - this.startTime) / 1000);
+        Object.keys(uniforms).forEach(name => program.setUniform(name, uniforms[name]));
+
+        // Bind framebuffer texture
+        this.gl.activeTexture(this.gl.TEXTURE0);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+
+        // Draw quad
+        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.renderContext.quadBuffer);
+        this.gl.enableVertexAttribArray(program.positionLocation);
+        this.gl.vertexAttribPointer(program.positionLocation, 2, this.gl.FLOAT, false, 0, 0);
+        this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+    }
+
+    private getTargetFps(): number {
+        let fps = this.scheduling.maxFps;
+        if (isLowBattery()) {
+            fps = Math.min(fps, this.scheduling.lowBatteryFps);
         }
-        return {
-            animation: nextAnim,
-            direction: nextDirection,
-            timestamp: 0
-        };
+        // Nothing moves much while sitting or sleeping, unless the user is playing with the pet
+        const animation = this.simulation.getAction().animation;
+        const resting = animation === "Sleep" || animation === "Sit";
+        if (resting && !this.isMouseOver && !this.simulation.isDragging() && !this.simulation.isAirborne() && !this.speechBubble.isVisible()) {
+            fps = Math.min(fps, this.scheduling.idleFps);
+        }
+        return fps;
     }
 
-    private handleCanvasClick(): void {
+    private isReducedMotion(): boolean {
+        return this.scheduling.respectReducedMotion && prefersReducedMotion();
+    }
+
+    private handleKeyDown(e: KeyboardEvent, onContextMenu: (e: KeyboardEvent) => void): void {
+        if (!this.allowInteract) {
+            return;
+        }
+        if (e.key === "Enter") {
+            e.preventDefault();
+            this.handleCanvasClick(e);
+        } else if (e.key === "ContextMenu" || (e.key === "F10" && e.shiftKey)) {
+            // Also stops the browser from firing `contextmenu`, which would open the menu twice
+            e.preventDefault();
+            onContextMenu(e);
+        }
+    }
+
+    private handleCanvasClick(e: MouseEvent | TouchEvent | KeyboardEvent): void {
         if (this.character && this.character.state) {
-            this.currentAction = {
+            this.simulation.setAction({
                 animation: "Interact",
-                direction: this.currentAction.direction,
+                direction: this.simulation.getAction().direction,
                 timestamp: 0,
-            };
-            this.character.state.setAnimation(0, "Interact", false);
-            console.debug("Play action", this.currentAction);
+            }, false);
+            this.sayFromDialogue("click");
         }
+        this.events.emit('click', e);
     }
 
-    private handleDragStart(e: MouseEvent | TouchEvent): void {
-        if ((e as MouseEvent).button === undefined || (e as MouseEvent).button === 0) {
-            this.isDragging = true;
-            
-            const clientX = 'touches' in e ? e.touches[0].clientX : (e as MouseEvent).clientX;
-            const clientY = 'touches' in e ? e.touches[0].clientY : (e as MouseEvent).clientY;
-            this.dragStartRelativeX = clientX - this.position.x;
-            this.dragStartRelativeY = clientY - this.position.y;
-            
-            // Pause any current animation
-            if (this.character && this.character.state) {
-                this.character.state.setAnimation(0, "Relax", true);
-                this.currentAction = {
-                    animation: "Relax",
-                    direction: this.currentAction.direction,
-                    timestamp: 0
-                };
-            }
+    private handleDragStart(e: MouseEvent): void {
+        if (e.button === 0) {
+            this.startDrag(e.clientX, e.clientY, e);
         }
     }
 
-    private handleDrag(e: MouseEvent | TouchEvent): void {
-        if (this.isDragging) {
-            const clientX = 'touches' in e ? e.touches[0].clientX : (e as MouseEvent).clientX;
-            const clientY = 'touches' in e ? e.touches[0].clientY : (e as MouseEvent).clientY;
-            
-            const oldX = this.position.x;
-            const oldY = this.position.y;
-            const newX = clientX - this.dragStartRelativeX;
-            const newY = clientY - this.dragStartRelativeY;
-            
-            // Calculate velocity based on time between events
-            if (this.lastDragEvent) {
-                const dt = (e.timeStamp - this.lastDragEvent.timeStamp) / 1000;
-                if (dt > 0) {
-                    this.velocity.x = (newX - oldX) / dt;
-                    this.velocity.y = (newY - oldY) / dt;
-                }
-            }
-            
-            // Update position
-            this.position.x = newX;
-            this.position.y = newY;
-            this.canvas.style.transform = `translate(${this.position.x}px, ${this.position.y}px)`;
-            
-            this.lastDragEvent = e as MouseEvent;
-            
-            // Prevent scrolling on mobile
-            if ('touches' in e) {
-                e.preventDefault();
-            }
-        }
+    private handleDrag(e: MouseEvent): void {
+        this.moveDrag(e.clientX, e.clientY, e.timeStamp);
     }
 
-    private handleDragEnd(): void {
-        this.isDragging = false;
-        this.lastDragEvent = null;
+    private handleDragEnd(e: MouseEvent): void {
+        this.endDrag(e);
     }
 
-    public getAnimationNames(): string[] {
-        // If it's a vehicle type
-        if (this.isVehicle) {
-            // If it has Special animation
-            if (this.hasSpecialAnimation) {
-                return ANIMATION_NAMES_VEHICLE;
-            } else {
-                // If it doesn't have Special animation
-                return ANIMATION_NAMES_VEHICLE_NO_SPECIAL;
-            }
-        } else {
-            // If it's not a vehicle type
-            // If it has Special animation
-            if (this.hasSpecialAnimation) {
-                return ANIMATION_NAMES;
-            } else {
-                // If it doesn't have Special animation
-                return ANIMATION_NAMES_NO_SPECIAL;
-            }
+    private startDrag(clientX: number, clientY: number, e: MouseEvent | TouchEvent): void {
+        const pointer = this.space.fromClient(clientX, clientY);
+        const position = this.simulation.getPosition();
+        this.dragStartRelativeX = pointer.x - position.x;
+        this.dragStartRelativeY = pointer.y - position.y;
+        
+        // Pause any current animation
+        this.simulation.startDrag();
+        this.events.emit('dragStart', e);
+    }
+
+    private moveDrag(clientX: number, clientY: number, timeStamp: number): void {
+        if (!this.simulation.isDragging()) {
+            return;
         }
+        const pointer = this.space.fromClient(clientX, clientY);
+        
+        // The time between events gives the velocity
+        const dt = this.lastDragTime !== null ? (timeStamp - this.lastDragTime) / 1000 : 0;
+        this.simulation.dragTo(pointer.x - this.dragStartRelativeX, pointer.y - this.dragStartRelativeY, dt);
+        this.updateCanvasPosition();
+        this.lastDragTime = timeStamp;
     }
 
-    private getAnimationMarkov(): number[][] {
-        // Select corresponding transition matrix based on whether it's a vehicle and whether it has Special animation
-        if (this.isVehicle) {
-            // If it has Special animation
-            if (this.hasSpecialAnimation) {
-                return ANIMATION_MARKOV_VEHICLE;
-            } else {
-                // If it doesn't have Special animation
-                return ANIMATION_MARKOV_VEHICLE_NO_SPECIAL;
-            }
-        } else {
-            // If it's not a vehicle type
-            // If it has Special animation
-            if (this.hasSpecialAnimation) {
-                return ANIMATION_MARKOV;
-            } else {
-                // If it doesn't have Special animation
-                return ANIMATION_MARKOV_NO_SPECIAL;
-            }
+    private endDrag(e: MouseEvent | TouchEvent): void {
+        if (!this.simulation.isDragging()) {
+            return;
+        }
+        this.simulation.endDrag();
+        this.lastDragTime = null;
+        this.events.emit('dragEnd', e);
+        this.sayFromDialogue("drop");
+    }
+
+    /**
+     * Resize the pet, relative to its default size which depends on the window size.
+     * The scale is clamped between 0.5 and 2.5.
+     */
+    public setScale(scale: number): void {
+        this.scale = clampScale(scale);
+        const { width, height } = this.simulation.getSize();
+        this.updateCanvasSize();
+        if (this.character) {
+            this.character.skeleton.x = this.canvas.width / 2;
         }
+
+        // Keep the feet where they are
+        const size = this.simulation.getSize();
+        const position = this.simulation.getPosition();
+        this.simulation.setPosition(position.x + (width - size.width) / 2, position.y + height - size.height);
+        this.simulation.keepInBounds();
+        this.updateCanvasPosition();
+    }
+
+    public getScale(): number {
+        return this.scale;
+    }
+
+    /**
+     * Change the effects applied to the pet. Options not given are reset to their defaults.
+     * Throws an error if a custom effect isn't registered.
+     */
+    public setEffects(effects: EffectOptions): void {
+        this.effects = resolveEffectOptions(effects);
+    }
+
+    public getEffects(): EffectOptions {
+        return { ...this.effects };
+    }
+
+    /**
+     * Change the physics of the pet. Options not given are reset to their defaults.
+     * Throws an error if an option is out of range.
+     */
+    public setPhysics(physics: PhysicsOptions): void {
+        this.simulation.setPhysics(physics);
+    }
+
+    public getPhysics(): PhysicsOptions {
+        return { ...this.simulation.getPhysics() };
+    }
+
+    /**
+     * The position, physics and behavior state the pet is drawn from.
+     */
+    public getSimulation(): PetSimulation {
+        return this.simulation;
+    }
+
+    /**
+     * States of the pet, e.g. `Relax`, whatever the skeleton calls their animations.
+     */
+    public getAnimationNames(): string[] {
+        return this.simulation.getBehavior().animations;
     }
 
     public playAnimation(animationName: string): void {
-        this.currentAction = {
+        this.simulation.setAction({
             animation: animationName,
-            direction: this.currentAction.direction,
+            direction: this.simulation.getAction().direction,
             timestamp: 0,
-        };
-        this.character.state.setAnimation(0, animationName, true);
-        console.debug("Play action", this.currentAction);
+        });
+    }
+
+    /**
+     * Show `text` in a speech bubble above the pet. The text is never interpreted as HTML.
+     */
+    public say(text: string, options: SayOptions = {}): void {
+        const duration = options.duration ?? Math.min(MAX_SPEECH_DURATION, MIN_SPEECH_DURATION + text.length * SPEECH_DURATION_PER_CHAR);
+        this.speechBubble.show(text, duration, this.canvas);
+    }
+
+    /**
+     * Say a random line of the model's dialogue pool for `trigger`, if it has one.
+     */
+    private sayFromDialogue(trigger: DialogueTrigger): void {
+        const lines = this.model.dialogue?.[trigger];
+        if (lines && lines.length > 0) {
+            this.say(lines[Math.floor(this.simulation.nextRandom() * lines.length)]);
+        }
     }
 
     public getCanvasId(): string {
@@ -871,6 +1003,18 @@ export class Character {
 
     public setAllowInteract(allowInteract: boolean): void {
         this.allowInteract = allowInteract;
+        this.canvas.tabIndex = allowInteract ? 0 : -1;
+    }
+
+    /**
+     * Move keyboard focus to the pet, e.g. after closing its menu.
+     */
+    public focus(): void {
+        this.canvas.focus({ preventScroll: true });
+    }
+
+    private updateAccessibleLabel(): void {
+        this.canvas.setAttribute('aria-label', getModelName(this.model));
     }
 
     /**
@@ -913,17 +1057,22 @@ export class Character {
         
         // Apply scale limits (ensure between minScale and maxScale)
         const scale = Math.max(minScale, Math.min(maxScale, Math.min(bestWidth / baseWidth, bestHeight / baseHeight)));
-        const finalWidth = baseWidth * scale;
-        const finalHeight = baseHeight * scale;
+        // The size chosen by the user applies on top
+        const finalWidth = baseWidth * scale * this.scale;
+        const finalHeight = baseHeight * scale * this.scale;
 
         // Set canvas display size
         this.canvas.style.width = `${finalWidth}px`;
         this.canvas.style.height = `${finalHeight}px`;
+        this.simulation.setSize(this.canvas.offsetWidth, this.canvas.offsetHeight);
         
         // Set canvas internal resolution (consider device pixel ratio)
         this.canvas.width = finalWidth * this.pixelRatio;
         this.canvas.height = finalHeight * this.pixelRatio;
         
+        // Make room for the new size in the framebuffer
+        this.renderContext.reserve(this.canvas.width, this.canvas.height);
+
         // Update projection matrix and WebGL viewport
         this.mvp.ortho2d(0, 0, this.canvas.width, this.canvas.height);
         this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
@@ -936,16 +1085,11 @@ export class Character {
         // Update pixel ratio for zoom/high-res support
         this.pixelRatio = this.getPixelRatio();
 
-        // Dynamically adjust canvas size
+        // Dynamically adjust canvas size, which also resizes the framebuffer texture
         this.updateCanvasSize();
         
-        // Only update framebuffer texture size, not recreate the entire framebuffer
-        this.gl.bindTexture(this.gl.TEXTURE_2D, this.framebufferTexture);
-        this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.canvas.width, this.canvas.height, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
-        
         // Update character position to fit new dimensions
-        this.position.x = Math.min(this.position.x, window.innerWidth - this.canvas.offsetWidth);
-        this.position.y = Math.min(this.position.y, window.innerHeight - this.canvas.offsetHeight);
+        this.simulation.keepInBounds();
         
         // Update skeleton position and projection matrix
         if (this.character && this.character.skeleton) {
@@ -955,26 +1099,4 @@ export class Character {
             this.mvp.ortho2d(0, 0, this.canvas.width, this.canvas.height);
         }
     }
-
-    /**
-     * Release WebGL resources
-     */
-    private releaseWebGLResources(): void {
-        if (this.framebuffer) {
-            this.gl.deleteFramebuffer(this.framebuffer);
-            this.framebuffer = null as any;
-        }
-        if (this.framebufferTexture) {
-            this.gl.deleteTexture(this.framebufferTexture);
-            this.framebufferTexture = null as any;
-        }
-        if (this.quadBuffer) {
-            this.gl.deleteBuffer(this.quadBuffer);
-            this.quadBuffer = null as any;
-        }
-        if (this.outlineShader) {
-            this.gl.deleteProgram(this.outlineShader);
-            this.outlineShader = null as any;
-        }
-    }
 }
\ No newline at end of file
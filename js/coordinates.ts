@@ -0,0 +1,85 @@
+import { CoordinateSpaceMode } from './types';
+
+// Space in which a saved position was expressed. A container can't be told apart from the document
+// in storage, so it gets its own kind
+export type StoredCoordinateSpace = CoordinateSpaceMode | "container";
+
+/**
+ * The coordinate space a pet lives in.
+ *
+ * - `viewport`: the pet floats over the page, the floor is the bottom of the window.
+ * - `document`: the pet scrolls with the page, the floor is the bottom of the document,
+ *   or of `container` if one is given.
+ */
+export class CoordinateSpace {
+    public readonly mode: CoordinateSpaceMode;
+    public readonly container: HTMLElement | null;
+
+    constructor(mode: CoordinateSpaceMode = "viewport", container: HTMLElement | null = null) {
+        this.mode = mode;
+        this.container = mode === "document" ? container : null;
+    }
+
+    public getStoredKind(): StoredCoordinateSpace {
+        return this.container ? "container" : this.mode;
+    }
+
+    /**
+     * Element the pet's canvas is attached to.
+     */
+    public getParent(): HTMLElement {
+        return this.container ?? document.body;
+    }
+
+    /**
+     * Size of the area the pet can move in.
+     */
+    public getSize(): { width: number; height: number } {
+        if (this.container) {
+            return { width: this.container.clientWidth, height: this.container.scrollHeight };
+        }
+        if (this.mode === "document") {
+            const root = document.documentElement;
+            return { width: root.clientWidth, height: Math.max(root.clientHeight, root.scrollHeight) };
+        }
+        return { width: window.innerWidth, height: window.innerHeight };
+    }
+
+    /**
+     * Client (viewport) coordinates of this space's origin.
+     */
+    public getOrigin(): { x: number; y: number } {
+        if (this.container) {
+            const rect = this.container.getBoundingClientRect();
+            return {
+                x: rect.left + this.container.clientLeft - this.container.scrollLeft,
+                y: rect.top + this.container.clientTop - this.container.scrollTop,
+            };
+        }
+        if (this.mode === "document") {
+            return { x: -window.scrollX, y: -window.scrollY };
+        }
+        return { x: 0, y: 0 };
+    }
+
+    public fromClient(clientX: number, clientY: number): { x: number; y: number } {
+        const origin = this.getOrigin();
+        return { x: clientX - origin.x, y: clientY - origin.y };
+    }
+
+    /**
+     * Convert a position saved in another space into this one, or return null if that's impossible.
+     */
+    public convertStored(position: { x: number; y: number }, from: StoredCoordinateSpace): { x: number; y: number } | null {
+        if (from === this.getStoredKind()) {
+            return position;
+        }
+        if (from === "viewport" && this.mode === "document" && !this.container) {
+            return this.fromClient(position.x, position.y);
+        }
+        if (from === "document" && this.mode === "viewport") {
+            return { x: position.x - window.scrollX, y: position.y - window.scrollY };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,156 @@
+import { EffectDefinition, EffectOptions, UniformValue } from './types';
+
+// Defaults of the built-in effects, matching the original yellow hover outline
+export const DEFAULT_EFFECTS: Required<EffectOptions> = {
+    outlineColor: [1.0, 1.0, 0.0, 1.0],
+    outlineWidth: 2,
+    glowColor: [1.0, 1.0, 0.6, 0.8],
+    glowWidth: 0,
+    hoverAlpha: 0.3,
+    tint: [1.0, 1.0, 1.0],
+    brightness: 1.0,
+    contrast: 1.0,
+    saturation: 1.0,
+    grayscaleWhenSleeping: false,
+    custom: [],
+};
+
+// Custom effects by name, shared by all render contexts
+const registeredEffects = new Map<string, EffectDefinition>();
+
+/**
+ * Make a custom fragment shader available to pets as an effect.
+ *
+ * The shader gets the same inputs as the built-in one: `u_texture` with the character, the
+ * `v_texCoord` varying, `u_textureSize` (ivec2) and `u_time` in seconds, plus its own uniforms.
+ * Float and int uniforms of up to four components are supported.
+ */
+export function registerEffect(name: string, definition: EffectDefinition): void {
+    if (registeredEffects.has(name)) {
+        throw new Error(`Effect ${name} is already registered`);
+    }
+    registeredEffects.set(name, definition);
+}
+
+export function getEffect(name: string): EffectDefinition | undefined {
+    return registeredEffects.get(name);
+}
+
+/**
+ * Fill in defaults and check that custom effects exist. Throws an error otherwise.
+ */
+export function resolveEffectOptions(options: EffectOptions = {}): Required<EffectOptions> {
+    const resolved = { ...DEFAULT_EFFECTS, ...options };
+    for (const effect of resolved.custom) {
+        if (!registeredEffects.has(effect.name)) {
+            throw new Error(`Unknown effect ${effect.name}, register it with registerEffect first`);
+        }
+    }
+    return resolved;
+}
+
+interface UniformInfo {
+    location: WebGLUniformLocation;
+    type: number;
+}
+
+/**
+ * A compiled shader program drawing the full-screen quad. Uniform locations are resolved once
+ * after linking.
+ */
+export class EffectProgram {
+    public readonly program: WebGLProgram;
+    public readonly positionLocation: number;
+    private gl: WebGLRenderingContext;
+    private uniforms = new Map<string, UniformInfo>();
+
+    constructor(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string) {
+        this.gl = gl;
+        const vertexShader = this.compile(gl.VERTEX_SHADER, vertexSource);
+        const fragmentShader = this.compile(gl.FRAGMENT_SHADER, fragmentSource);
+
+        this.program = gl.createProgram()!;
+        gl.attachShader(this.program, vertexShader);
+        gl.attachShader(this.program, fragmentShader);
+        gl.linkProgram(this.program);
+
+        // Clean up shaders as they're now part of the program
+        gl.deleteShader(vertexShader);
+        gl.deleteShader(fragmentShader);
+
+        if (!gl.getProgramParameter(this.program, gl.LINK_STATUS)) {
+            const log = gl.getProgramInfoLog(this.program);
+            gl.deleteProgram(this.program);
+            throw new Error(`Program linking failed: ${log}`);
+        }
+
+        this.positionLocation = gl.getAttribLocation(this.program, "a_position");
+        const count: number = gl.getProgramParameter(this.program, gl.ACTIVE_UNIFORMS);
+        for (let i = 0; i < count; i++) {
+            const info = gl.getActiveUniform(this.program, i);
+            const location = info && gl.getUniformLocation(this.program, info.name);
+            if (info && location) {
+                this.uniforms.set(info.name, { location, type: info.type });
+            }
+        }
+    }
+
+    private compile(type: number, source: string): WebGLShader {
+        const shader = this.gl.createShader(type)!;
+        this.gl.shaderSource(shader, source);
+        this.gl.compileShader(shader);
+        if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
+            const log = this.gl.getShaderInfoLog(shader);
+            this.gl.deleteShader(shader);
+            const kind = type === this.gl.VERTEX_SHADER ? 'Vertex' : 'Fragment';
+            throw new Error(`${kind} shader compilation failed: ${log}`);
+        }
+        return shader;
+    }
+
+    /**
+     * Set a uniform by name. Uniforms the shader doesn't use are ignored.
+     */
+    public setUniform(name: string, value: UniformValue): void {
+        const uniform = this.uniforms.get(name);
+        if (!uniform) {
+            return;
+        }
+        const gl = this.gl;
+        const values = typeof value === 'number' ? [value] : value;
+        switch (uniform.type) {
+            case gl.INT:
+            case gl.BOOL:
+            case gl.SAMPLER_2D:
+                gl.uniform1i(uniform.location, values[0]);
+                break;
+            case gl.INT_VEC2:
+                gl.uniform2iv(uniform.location, values);
+                break;
+            case gl.INT_VEC3:
+                gl.uniform3iv(uniform.location, values);
+                break;
+            case gl.INT_VEC4:
+                gl.uniform4iv(uniform.location, values);
+                break;
+            case gl.FLOAT:
+                gl.uniform1f(uniform.location, values[0]);
+                break;
+            case gl.FLOAT_VEC2:
+                gl.uniform2fv(uniform.location, values);
+                break;
+            case gl.FLOAT_VEC3:
+                gl.uniform3fv(uniform.location, values);
+                break;
+            case gl.FLOAT_VEC4:
+                gl.uniform4fv(uniform.location, values);
+                break;
+            default:
+                console.warn(`Unsupported type of uniform ${name}`);
+        }
+    }
+
+    public dispose(): void {
+        this.gl.deleteProgram(this.program);
+    }
+}
@@ -0,0 +1,73 @@
+import { CharacterModel } from './types';
+import { getModelName } from './i18n';
+
+/**
+ * Base class of the errors `Character.loadCharacterModel` rejects with.
+ */
+export class LoadError extends Error {
+    public model: CharacterModel | null;
+    public cause?: unknown;
+
+    constructor(message: string, model: CharacterModel | null = null, cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+        this.model = model;
+        this.cause = cause;
+        // Keep `instanceof` working when compiled down to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * A file could not be downloaded because of the network or the server.
+ */
+export class NetworkError extends LoadError {
+    public url: string;
+
+    constructor(url: string, message: string, cause?: unknown) {
+        super(message, null, cause);
+        this.url = url;
+    }
+}
+
+/**
+ * The server answered that a file doesn't exist (or may not be accessed).
+ */
+export class MissingFileError extends LoadError {
+    public url: string;
+    public status: number;
+
+    constructor(url: string, status: number) {
+        super(`Missing file ${url}: status ${status}`);
+        this.url = url;
+        this.status = status;
+    }
+}
+
+/**
+ * The skeleton, atlas or texture was downloaded but can't be parsed.
+ */
+export class CorruptSkeletonError extends LoadError {}
+
+/**
+ * The skeleton lacks animations the pet can't do without.
+ */
+export class MissingAnimationError extends LoadError {
+    public animations: string[];
+
+    constructor(animations: string[], model: CharacterModel) {
+        super(`Model ${getModelName(model)} is missing animations: ${animations.join(", ")}`, model);
+        this.animations = animations;
+    }
+}
+
+/**
+ * Wrap any error as a `LoadError` of `model`.
+ */
+export function toLoadError(error: unknown, model: CharacterModel): LoadError {
+    if (error instanceof LoadError) {
+        error.model ??= model;
+        return error;
+    }
+    return new LoadError(`Failed to load ${getModelName(model)}: ${error}`, model, error);
+}
@@ -0,0 +1,49 @@
+export type EventListener<T> = (payload: T) => void;
+
+// Wrapper registered by `once`, remembering the listener it calls so that `off` finds it
+type OnceWrapper<T> = EventListener<T> & { listener?: EventListener<T> };
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to the type of its payload.
+ */
+export class EventEmitter<Events extends object> {
+    private listeners: { [K in keyof Events]?: EventListener<Events[K]>[] } = {};
+
+    public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        (this.listeners[event] ??= []).push(listener);
+    }
+
+    public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        const listeners = this.listeners[event];
+        if (listeners) {
+            const index = listeners.findIndex(l => l === listener || (l as OnceWrapper<Events[K]>).listener === listener);
+            if (index !== -1) {
+                listeners.splice(index, 1);
+            }
+        }
+    }
+
+    public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        const wrapper: OnceWrapper<Events[K]> = (payload) => {
+            this.off(event, wrapper);
+            listener(payload);
+        };
+        wrapper.listener = listener;
+        this.on(event, wrapper);
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        // Copy so that listeners may unsubscribe while being called
+        (this.listeners[event] ?? []).slice().forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Error in listener of event "${String(event)}":`, error);
+            }
+        });
+    }
+
+    public removeAllListeners(): void {
+        this.listeners = {};
+    }
+}
@@ -0,0 +1,155 @@
+const LONG_PRESS_TIME = 500; // milliseconds a finger must rest to open the menu
+const TAP_SLOP = 10; // pixels a finger may move and still tap or long-press
+
+export interface GestureHandlers {
+    onTap: (e: TouchEvent) => void;
+    onLongPress: (e: TouchEvent) => void;
+    onDragStart: (touch: Touch, e: TouchEvent) => void;
+    onDragMove: (touch: Touch, e: TouchEvent) => void;
+    onDragEnd: (e: TouchEvent) => void;
+    onPinchStart: () => void;
+    // `ratio` is the distance between the fingers relative to when the pinch started
+    onPinch: (ratio: number) => void;
+}
+
+type GestureState =
+    | { kind: "idle" }
+    // A finger is down but hasn't moved yet, may become a tap, a long press or a drag
+    | { kind: "pending"; id: number; startX: number; startY: number; timer: ReturnType<typeof setTimeout> }
+    | { kind: "dragging"; id: number }
+    | { kind: "pinching"; ids: [number, number]; startDistance: number }
+    // Waiting for all fingers to lift after a long press or a pinch
+    | { kind: "done" };
+
+function findTouch(list: TouchList, id: number): Touch | null {
+    for (let i = 0; i < list.length; i++) {
+        if (list[i].identifier === id) {
+            return list[i];
+        }
+    }
+    return null;
+}
+
+function distance(a: Touch, b: Touch): number {
+    return Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+}
+
+/**
+ * Tells taps, long presses, drags and pinches apart for touches starting on `element`.
+ * Fingers are followed by identifier, so lifting one finger doesn't move the others' gestures.
+ */
+export class TouchGestures {
+    private element: HTMLElement;
+    private handlers: GestureHandlers;
+    private state: GestureState = { kind: "idle" };
+    private onTouchStartRef: (e: TouchEvent) => void;
+    private onTouchMoveRef: (e: TouchEvent) => void;
+    private onTouchEndRef: (e: TouchEvent) => void;
+
+    constructor(element: HTMLElement, handlers: GestureHandlers) {
+        this.element = element;
+        this.handlers = handlers;
+        this.onTouchStartRef = this.onTouchStart.bind(this);
+        this.onTouchMoveRef = this.onTouchMove.bind(this);
+        this.onTouchEndRef = this.onTouchEnd.bind(this);
+
+        this.element.addEventListener('touchstart', this.onTouchStartRef);
+        // Not passive, to stop the page from scrolling while dragging or pinching
+        document.addEventListener('touchmove', this.onTouchMoveRef, { passive: false });
+        document.addEventListener('touchend', this.onTouchEndRef);
+        document.addEventListener('touchcancel', this.onTouchEndRef);
+    }
+
+    public destroy(): void {
+        this.reset();
+        this.element.removeEventListener('touchstart', this.onTouchStartRef);
+        document.removeEventListener('touchmove', this.onTouchMoveRef);
+        document.removeEventListener('touchend', this.onTouchEndRef);
+        document.removeEventListener('touchcancel', this.onTouchEndRef);
+    }
+
+    private onTouchStart(e: TouchEvent): void {
+        const touch = e.changedTouches[0];
+        if (this.state.kind === "idle") {
+            const timer = setTimeout(() => {
+                this.state = { kind: "done" };
+                this.handlers.onLongPress(e);
+            }, LONG_PRESS_TIME);
+            this.state = { kind: "pending", id: touch.identifier, startX: touch.clientX, startY: touch.clientY, timer };
+        } else {
+            this.startPinch(e);
+        }
+    }
+
+    private onTouchMove(e: TouchEvent): void {
+        // A second finger may land anywhere, not only on the pet
+        if (e.touches.length >= 2) {
+            this.startPinch(e);
+        }
+
+        const state = this.state;
+        if (state.kind === "pending") {
+            const touch = findTouch(e.touches, state.id);
+            if (touch && Math.hypot(touch.clientX - state.startX, touch.clientY - state.startY) > TAP_SLOP) {
+                clearTimeout(state.timer);
+                this.state = { kind: "dragging", id: state.id };
+                this.handlers.onDragStart(touch, e);
+                this.handlers.onDragMove(touch, e);
+            }
+        } else if (state.kind === "dragging") {
+            const touch = findTouch(e.touches, state.id);
+            if (touch) {
+                this.handlers.onDragMove(touch, e);
+            }
+        } else if (state.kind === "pinching") {
+            const a = findTouch(e.touches, state.ids[0]);
+            const b = findTouch(e.touches, state.ids[1]);
+            if (a && b && state.startDistance > 0) {
+                this.handlers.onPinch(distance(a, b) / state.startDistance);
+            }
+        }
+
+        if (this.state.kind === "dragging" || this.state.kind === "pinching") {
+            e.preventDefault();
+        }
+    }
+
+    private onTouchEnd(e: TouchEvent): void {
+        const state = this.state;
+        if (state.kind === "pending" && findTouch(e.changedTouches, state.id)) {
+            clearTimeout(state.timer);
+            this.state = { kind: "idle" };
+            // Don't let the browser turn the tap into mouse events and a click as well
+            e.preventDefault();
+            this.handlers.onTap(e);
+        } else if (state.kind === "dragging" && findTouch(e.changedTouches, state.id)) {
+            this.state = e.touches.length > 0 ? { kind: "done" } : { kind: "idle" };
+            this.handlers.onDragEnd(e);
+        } else if (state.kind === "pinching" && e.touches.length < 2) {
+            this.state = e.touches.length > 0 ? { kind: "done" } : { kind: "idle" };
+        } else if (state.kind === "done" && e.touches.length === 0) {
+            this.state = { kind: "idle" };
+        }
+    }
+
+    private startPinch(e: TouchEvent): void {
+        const touches = e.touches;
+        if (touches.length < 2 || this.state.kind === "idle" || this.state.kind === "pinching" || this.state.kind === "done") {
+            return;
+        }
+        if (this.state.kind === "pending") {
+            clearTimeout(this.state.timer);
+        } else {
+            this.handlers.onDragEnd(e);
+        }
+        this.state = { kind: "pinching", ids: [touches[0].identifier, touches[1].identifier], startDistance: distance(touches[0], touches[1]) };
+        this.handlers.onPinchStart();
+    }
+
+    private reset(): void {
+        if (this.state.kind === "pending") {
+            clearTimeout(this.state.timer);
+        }
+        this.state = { kind: "idle" };
+    }
+}
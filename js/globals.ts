@@ -1,18 +1,184 @@
 import { Character } from './character';
-import { showContextMenu } from './menu';
-import type { CharacterModel } from './types';
+import { getDefaultMenuItems, showContextMenu } from './menu';
+import { PetManager } from './pet-manager';
+import { loadCatalog, validateCatalog } from './catalog';
+import { AssetCache, preload } from './asset-cache';
+import { CorruptSkeletonError, LoadError, MissingAnimationError, MissingFileError, NetworkError } from './errors';
+import { DEFAULT_BEHAVIOR_PROFILES, validateBehaviorProfile } from './behavior';
+import { resolveAnimationAliases } from './animation-aliases';
+import { MemoryStorage } from './persistence';
+import { ArkPetElement, defineArkPetElement } from './pet-element';
+import { DEFAULT_EFFECTS, registerEffect } from './effects';
+import { DEFAULT_PHYSICS } from './physics';
+import { PetSimulation } from './simulation';
+import { createSeededRandom } from './random';
+import { getAnimationDisplayName, getLocale, getModelName, localize, registerMessages, setLocale, translate } from './i18n';
+import type { Catalog, CatalogEntry, CatalogName, CatalogOperator, LoadCatalogOptions } from './catalog';
+import type { MenuCallbacks } from './menu';
+import type {
+    Action,
+    AnimationAliases,
+    AssetCacheOptions,
+    BehaviorProfile,
+    CharacterEventMap,
+    CharacterModel,
+    CharacterOptions,
+    Clock,
+    CoordinateSpaceMode,
+    CustomEffect,
+    DialoguePools,
+    DialogueTrigger,
+    Direction,
+    DwellTime,
+    EffectDefinition,
+    EffectOptions,
+    FallingBehavior,
+    HitTestMode,
+    LocalizedString,
+    MenuEntry,
+    MenuHeader,
+    MenuItem,
+    MenuSeparator,
+    MenuSlider,
+    Messages,
+    Operator,
+    PersistenceOptions,
+    PetManagerOptions,
+    PhysicsOptions,
+    PlatformEdgeBehavior,
+    PlatformOptions,
+    RandomSource,
+    RGB,
+    RGBA,
+    SayOptions,
+    SchedulerOptions,
+    SimulationEventMap,
+    SimulationOptions,
+    SkeletonFormat,
+    StorageAdapter,
+    StorageKind,
+    UniformValue,
+} from './types';
 
 // Export everything from a single entry point
 export {
     Character,
+    PetManager,
     showContextMenu,
+    getDefaultMenuItems,
+    DEFAULT_BEHAVIOR_PROFILES,
+    validateBehaviorProfile,
+    resolveAnimationAliases,
+    loadCatalog,
+    validateCatalog,
+    AssetCache,
+    preload,
+    LoadError,
+    NetworkError,
+    MissingFileError,
+    CorruptSkeletonError,
+    MissingAnimationError,
+    MemoryStorage,
+    ArkPetElement,
+    defineArkPetElement,
+    registerEffect,
+    DEFAULT_EFFECTS,
+    DEFAULT_PHYSICS,
+    PetSimulation,
+    createSeededRandom,
+    getLocale,
+    setLocale,
+    registerMessages,
+    translate,
+    getAnimationDisplayName,
+    localize,
+    getModelName,
+    Action,
+    AnimationAliases,
+    AssetCacheOptions,
+    BehaviorProfile,
+    Catalog,
+    CatalogEntry,
+    CatalogName,
+    CatalogOperator,
+    CharacterEventMap,
     CharacterModel,
+    CharacterOptions,
+    Clock,
+    CoordinateSpaceMode,
+    CustomEffect,
+    DialoguePools,
+    DialogueTrigger,
+    Direction,
+    DwellTime,
+    EffectDefinition,
+    EffectOptions,
+    FallingBehavior,
+    HitTestMode,
+    LoadCatalogOptions,
+    LocalizedString,
+    MenuCallbacks,
+    MenuEntry,
+    MenuHeader,
+    MenuItem,
+    MenuSeparator,
+    MenuSlider,
+    Messages,
+    Operator,
+    PersistenceOptions,
+    PetManagerOptions,
+    PhysicsOptions,
+    PlatformEdgeBehavior,
+    PlatformOptions,
+    RandomSource,
+    RGB,
+    RGBA,
+    SayOptions,
+    SchedulerOptions,
+    SimulationEventMap,
+    SimulationOptions,
+    SkeletonFormat,
+    StorageAdapter,
+    StorageKind,
+    UniformValue,
 };
 
+// Let pages use `<ark-pet>` as soon as the bundle is loaded
+defineArkPetElement();
+
 // For UMD bundle
 const arkpets = {
     Character,
+    PetManager,
     showContextMenu,
+    getDefaultMenuItems,
+    DEFAULT_BEHAVIOR_PROFILES,
+    validateBehaviorProfile,
+    resolveAnimationAliases,
+    loadCatalog,
+    validateCatalog,
+    AssetCache,
+    preload,
+    LoadError,
+    NetworkError,
+    MissingFileError,
+    CorruptSkeletonError,
+    MissingAnimationError,
+    MemoryStorage,
+    ArkPetElement,
+    defineArkPetElement,
+    registerEffect,
+    DEFAULT_EFFECTS,
+    DEFAULT_PHYSICS,
+    PetSimulation,
+    createSeededRandom,
+    getLocale,
+    setLocale,
+    registerMessages,
+    translate,
+    getAnimationDisplayName,
+    localize,
+    getModelName,
 };
 
-export default arkpets;
\ No newline at end of file
+export default arkpets;
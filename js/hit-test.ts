@@ -0,0 +1,72 @@
+import spine from '../libs/spine-webgl.js';
+
+/**
+ * Tests points against the geometry of a posed skeleton, without reading back from the GPU.
+ *
+ * Bounding box attachments are used when the model has any, as they are meant for this.
+ * Otherwise the point is tested against the triangles of every visible region and mesh, which
+ * also covers the transparent parts of their images.
+ */
+export class GeometryHitTester {
+    private bounds = new spine.SkeletonBounds();
+    private vertices: number[] = [];
+
+    /**
+     * Whether the skeleton covers the point, in skeleton world coordinates.
+     * The skeleton's world transform must be up to date.
+     */
+    public containsPoint(skeleton: spine.Skeleton, x: number, y: number): boolean {
+        this.bounds.update(skeleton, true);
+        if (this.bounds.boundingBoxes.length > 0) {
+            return this.bounds.aabbContainsPoint(x, y) && this.bounds.containsPoint(x, y) !== null;
+        }
+
+        for (const slot of skeleton.drawOrder) {
+            const attachment = slot.getAttachment();
+            if (!attachment || !slot.bone.active || slot.color.a === 0) {
+                continue;
+            }
+            if (attachment instanceof spine.RegionAttachment) {
+                attachment.computeWorldVertices(slot.bone, this.vertices, 0, 2);
+                if (this.quadContainsPoint(x, y)) {
+                    return true;
+                }
+            } else if (attachment instanceof spine.MeshAttachment) {
+                attachment.computeWorldVertices(slot, 0, attachment.worldVerticesLength, this.vertices, 0, 2);
+                if (this.meshContainsPoint(attachment.triangles, x, y)) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private quadContainsPoint(x: number, y: number): boolean {
+        return this.triangleContainsPoint(0, 1, 2, x, y) || this.triangleContainsPoint(2, 3, 0, x, y);
+    }
+
+    private meshContainsPoint(triangles: number[], x: number, y: number): boolean {
+        for (let i = 0; i < triangles.length; i += 3) {
+            if (this.triangleContainsPoint(triangles[i], triangles[i + 1], triangles[i + 2], x, y)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Whether the triangle made of vertices `a`, `b` and `c` contains the point, whatever its winding.
+     */
+    private triangleContainsPoint(a: number, b: number, c: number, x: number, y: number): boolean {
+        const v = this.vertices;
+        const ax = v[a * 2], ay = v[a * 2 + 1];
+        const bx = v[b * 2], by = v[b * 2 + 1];
+        const cx = v[c * 2], cy = v[c * 2 + 1];
+        const d1 = (x - bx) * (ay - by) - (ax - bx) * (y - by);
+        const d2 = (x - cx) * (by - cy) - (bx - cx) * (y - cy);
+        const d3 = (x - ax) * (cy - ay) - (cx - ax) * (y - ay);
+        const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+        const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+        return !(hasNegative && hasPositive);
+    }
+}
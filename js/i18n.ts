@@ -0,0 +1,156 @@
+import { CharacterModel, LocalizedString, Messages } from './types';
+
+const DEFAULT_LOCALE = "en";
+
+// Built-in translations of the menu and the standard animations
+const messages: { [locale: string]: Messages } = {
+    "en": {
+        characters: "Characters",
+        actions: "Actions",
+        size: "Size",
+        small: "Small",
+        medium: "Medium",
+        large: "Large",
+        hide: "Hide",
+        about: "About",
+        search: "Search…",
+        animations: {
+            Relax: "Relax",
+            Interact: "Interact",
+            Move: "Move",
+            Sit: "Sit",
+            Sleep: "Sleep",
+            Special: "Special",
+        },
+    },
+    "zh-CN": {
+        characters: "角色",
+        actions: "动作",
+        size: "大小",
+        small: "小",
+        medium: "中",
+        large: "大",
+        hide: "隐藏",
+        about: "关于",
+        search: "搜索…",
+        animations: {
+            Relax: "待机",
+            Interact: "互动",
+            Move: "移动",
+            Sit: "坐下",
+            Sleep: "睡觉",
+            Special: "特殊",
+        },
+    },
+    "ja": {
+        characters: "キャラクター",
+        actions: "アクション",
+        size: "サイズ",
+        small: "小",
+        medium: "中",
+        large: "大",
+        hide: "非表示",
+        about: "情報",
+        search: "検索…",
+        animations: {
+            Relax: "待機",
+            Interact: "ふれあい",
+            Move: "移動",
+            Sit: "座る",
+            Sleep: "睡眠",
+            Special: "スペシャル",
+        },
+    },
+    "ko": {
+        characters: "캐릭터",
+        actions: "동작",
+        size: "크기",
+        small: "작게",
+        medium: "보통",
+        large: "크게",
+        hide: "숨기기",
+        about: "정보",
+        search: "검색…",
+        animations: {
+            Relax: "대기",
+            Interact: "상호작용",
+            Move: "이동",
+            Sit: "앉기",
+            Sleep: "수면",
+            Special: "특수",
+        },
+    },
+};
+
+// Set by `setLocale`, detected from the browser otherwise
+let localeOverride: string | null = null;
+
+/**
+ * Pick the key of `available` best matching `locale`: exact match first, then same language.
+ */
+function matchLocale(locale: string, available: string[]): string | undefined {
+    const language = locale.split("-")[0].toLowerCase();
+    return available.find(key => key.toLowerCase() === locale.toLowerCase())
+        ?? available.find(key => key.split("-")[0].toLowerCase() === language);
+}
+
+/**
+ * The locale of the texts shown by pets: the one given to `setLocale`, else the browser's
+ * language if translations exist for it, else English.
+ */
+export function getLocale(): string {
+    if (localeOverride) {
+        return localeOverride;
+    }
+    const browserLocale = typeof navigator !== "undefined" ? navigator.language : undefined;
+    return (browserLocale && matchLocale(browserLocale, Object.keys(messages))) || DEFAULT_LOCALE;
+}
+
+/**
+ * Override the locale detected from the browser, or go back to detecting it with `null`.
+ */
+export function setLocale(locale: string | null): void {
+    localeOverride = locale;
+}
+
+/**
+ * Add translations for a locale, or replace some of the built-in ones. Animation names are merged.
+ */
+export function registerMessages(locale: string, translations: Partial<Messages>): void {
+    const existing = messages[locale] ?? messages[DEFAULT_LOCALE];
+    messages[locale] = {
+        ...existing,
+        ...translations,
+        animations: { ...existing.animations, ...translations.animations },
+    };
+}
+
+function getMessages(locale: string): Messages {
+    return messages[matchLocale(locale, Object.keys(messages)) ?? DEFAULT_LOCALE];
+}
+
+export function translate(key: Exclude<keyof Messages, "animations">, locale: string = getLocale()): string {
+    return getMessages(locale)[key];
+}
+
+/**
+ * Display name of an animation, the raw name if it has no translation.
+ */
+export function getAnimationDisplayName(animation: string, locale: string = getLocale()): string {
+    return getMessages(locale).animations[animation] ?? messages[DEFAULT_LOCALE].animations[animation] ?? animation;
+}
+
+/**
+ * Pick the text best matching `locale`: exact match first, then same language, then any.
+ */
+export function localize(text: LocalizedString, locale: string = getLocale()): string {
+    if (typeof text === "string") {
+        return text;
+    }
+    const keys = Object.keys(text);
+    return text[matchLocale(locale, keys) ?? keys[0]];
+}
+
+export function getModelName(model: CharacterModel, locale: string = getLocale()): string {
+    return localize(model.name, locale);
+}
@@ -0,0 +1,41 @@
+/**
+ * Small progress bar drawn over a pet's canvas while its assets download.
+ */
+export class LoadingIndicator {
+    private element: HTMLElement;
+    private bar: HTMLElement;
+
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'arkpets-loading';
+        this.bar = document.createElement('div');
+        this.bar.className = 'arkpets-loading-bar';
+        this.element.appendChild(this.bar);
+    }
+
+    /**
+     * Show the indicator over `canvas`, with the same size, position and positioning scheme.
+     */
+    public show(canvas: HTMLCanvasElement): void {
+        this.element.classList.toggle('arkpets-canvas-document', canvas.classList.contains('arkpets-canvas-document'));
+        this.element.style.width = `${canvas.offsetWidth}px`;
+        this.element.style.height = `${canvas.offsetHeight}px`;
+        this.element.style.transform = canvas.style.transform;
+        this.setProgress(0, null);
+        canvas.parentNode?.insertBefore(this.element, canvas.nextSibling);
+    }
+
+    /**
+     * Update the bar. While the total size is unknown, the bar is animated instead.
+     */
+    public setProgress(loaded: number, total: number | null): void {
+        const determinate = total !== null && total > 0;
+        this.element.classList.toggle('arkpets-loading-indeterminate', !determinate);
+        // The track spans 40% of the canvas width
+        this.bar.style.width = determinate ? `${Math.min(1, loaded / total) * 40}%` : '';
+    }
+
+    public hide(): void {
+        this.element.remove();
+    }
+}
@@ -1,18 +1,41 @@
-import { Character } from './character';
-import { CharacterModel } from './types';
+import { Character, MAX_USER_SCALE, MIN_USER_SCALE } from './character';
+import { CharacterModel, MenuEntry, MenuItem, MenuSlider } from './types';
+import { LoadError } from './errors';
+import { getAnimationDisplayName, getLocale, getModelName, localize, translate } from './i18n';
 
 import '../styles.css';
 
-interface MenuCallbacks {
+// Number of items above which a searchable submenu offers a search box
+const SEARCH_THRESHOLD = 12;
+
+const DEFAULT_ABOUT_URL = 'https://github.com/fuyufjh/ArkPets-Web/';
+
+// Scales offered in the Size submenu, besides the slider
+const SIZE_PRESETS: { key: "small" | "medium" | "large"; scale: number }[] = [
+    { key: "small", scale: 0.75 },
+    { key: "medium", scale: 1 },
+    { key: "large", scale: 1.5 },
+];
+
+export interface MenuCallbacks {
     getCharacterModels?: () => CharacterModel[];
     onSelectCharacter?: (c: Character, model: CharacterModel) => void;
     onHideCharacter?: (c: Character) => void;
+    // Called when switching to a model picked in the menu fails; the previous character stays
+    onLoadError?: (c: Character, model: CharacterModel, error: LoadError) => void;
+    // Page opened by the About item
+    aboutUrl?: string;
+    // Language of the menu, defaults to `getLocale()`
+    locale?: string;
+    // Build the menu from the default items, e.g. to add, remove, reorder or nest items.
+    // Called every time the menu opens, so items may depend on the current state of the pet
+    items?: (c: Character, defaults: MenuItem[]) => MenuItem[];
 }
 
 function positionElement(element: HTMLElement, x: number, y: number, parentRect?: DOMRect): void {
     const { innerWidth, innerHeight } = window;
     const { offsetWidth, offsetHeight } = element;
-    
+
     // Calculate position, ensuring the element stays within the window
     let left = x;
     const top = Math.min(y, innerHeight - offsetHeight - 1);
@@ -27,150 +50,448 @@ function positionElement(element: HTMLElement, x: number, y: number, parentRect?
         // For main menu, just ensure it's within bounds
         left = Math.min(x, innerWidth - offsetWidth - 1);
     }
-    
+
     element.style.left = `${left}px`;
     element.style.top = `${top}px`;
 }
 
-function createCharactersSubmenu(c: Character, models: CharacterModel[], callbacks: MenuCallbacks): HTMLElement {
-    const charactersList = document.createElement('div');
-    charactersList.className = 'arkpets-submenu';
-    
-    models.forEach(model => {
-        const item = document.createElement('div');
-        item.innerHTML = model.name;
-        item.classList.add('arkpets-menu-item');
-        item.onclick = () => {
-            removeMenu();
-            const callback = callbacks.onSelectCharacter ?? (() => c.loadCharacterModel(model));
+// Group `items` by `getKey`, keeping the order in which keys first appear
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const key = getKey(item);
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key)!.push(item);
+    });
+    return groups;
+}
+
+// Words matching a model in the search box, including its names in every language
+function getModelKeywords(model: CharacterModel): string[] {
+    const names = [model.name, model.operator?.name, model.skin].flatMap(name =>
+        name === undefined ? [] : typeof name === "string" ? [name] : Object.values(name));
+    return [model.id, model.group ?? "", ...(model.tags ?? []), ...names];
+}
+
+function getModelItem(c: Character, model: CharacterModel, label: string, callbacks: MenuCallbacks): MenuEntry {
+    return {
+        type: "radio",
+        id: model.id,
+        label,
+        checked: model.id === c.getModel().id,
+        keywords: getModelKeywords(model),
+        onClick: () => {
+            const callback = callbacks.onSelectCharacter ?? (() => {
+                c.loadCharacterModel(model).catch((error: LoadError) => callbacks.onLoadError?.(c, model, error));
+            });
             callback(c, model);
-        };
-        charactersList.appendChild(item);
+        },
+    };
+}
+
+function getCharacterItems(c: Character, models: CharacterModel[], callbacks: MenuCallbacks, locale: string): MenuItem[] {
+    const current = c.getModel().id;
+    const items: MenuItem[] = [];
+    // Group models by their heading, then by operator, keeping the catalog order
+    groupBy(models, model => model.group ?? "").forEach((groupModels, group) => {
+        if (group) {
+            items.push({ type: "header", label: group });
+        }
+        // Models without an operator stand on their own
+        groupBy(groupModels, model => model.operator ? `operator:${model.operator.id}` : `model:${model.id}`).forEach(skins => {
+            const operator = skins[0].operator;
+            if (!operator || skins.length === 1) {
+                items.push(getModelItem(c, skins[0], getModelName(skins[0], locale), callbacks));
+                return;
+            }
+            items.push({
+                type: "radio",
+                id: operator.id,
+                label: localize(operator.name, locale),
+                checked: skins.some(skin => skin.id === current),
+                keywords: skins.flatMap(getModelKeywords),
+                submenu: skins.map(skin => getModelItem(c, skin, localize(skin.skin ?? skin.name, locale), callbacks)),
+            });
+        });
     });
+    return items;
+}
 
-    return charactersList;
+function getSizeItems(c: Character, locale: string): MenuItem[] {
+    const current = c.getScale();
+    return [
+        ...SIZE_PRESETS.map(({ key, scale }): MenuItem => ({
+            type: "radio",
+            id: key,
+            label: translate(key, locale),
+            checked: Math.abs(current - scale) < 0.01,
+            onClick: () => c.setScale(scale),
+        })),
+        { type: "separator" },
+        {
+            type: "slider",
+            id: "scale",
+            label: translate("size", locale),
+            min: MIN_USER_SCALE,
+            max: MAX_USER_SCALE,
+            step: 0.05,
+            value: current,
+            onChange: (c, value) => c.setScale(value),
+        },
+    ];
 }
 
-function createActionsSubmenu(c: Character): HTMLElement {
-    const actionsList = document.createElement('div');
-    actionsList.className = 'arkpets-submenu';
-    
-    c.getAnimationNames().forEach(animation => {
-        const item = document.createElement('div');
-        item.innerHTML = animation;
-        item.classList.add('arkpets-menu-item');
-        item.onclick = () => {
-            removeMenu();
-            c.playAnimation(animation);
-        };
-        actionsList.appendChild(item);
+/**
+ * The built-in menu: Characters (if there are models to pick from), Actions, Size, Hide and About,
+ * with ids "characters", "actions", "size", "hide" and "about".
+ */
+export function getDefaultMenuItems(c: Character, callbacks: MenuCallbacks = {}): MenuItem[] {
+    const locale = callbacks.locale ?? getLocale();
+    const items: MenuItem[] = [];
+
+    const models = callbacks.getCharacterModels?.();
+    if (models && models.length > 0) {
+        items.push({
+            id: "characters",
+            label: translate("characters", locale),
+            submenu: getCharacterItems(c, models, callbacks, locale),
+            searchable: true,
+        });
+    }
+
+    const currentAnimation = c.getSimulation().getAction().animation;
+    items.push({
+        id: "actions",
+        label: translate("actions", locale),
+        submenu: c.getAnimationNames().map(animation => ({
+            type: "radio",
+            id: animation,
+            label: getAnimationDisplayName(animation, locale),
+            checked: animation === currentAnimation,
+            onClick: () => c.playAnimation(animation),
+        })),
+    });
+
+    items.push({
+        id: "size",
+        label: translate("size", locale),
+        submenu: getSizeItems(c, locale),
+    });
+
+    items.push({
+        id: "hide",
+        label: translate("hide", locale),
+        onClick: () => {
+            const callback = callbacks.onHideCharacter ?? (() => {
+                c.fadeOut().then(() => {
+                    c.destroy();
+                });
+            });
+            callback(c);
+        },
     });
 
-    return actionsList;
+    items.push({
+        id: "about",
+        label: translate("about", locale),
+        onClick: () => {
+            window.open(callbacks.aboutUrl ?? DEFAULT_ABOUT_URL, '_blank');
+        },
+    });
+
+    return items;
+}
+
+function matchesSearch(entry: MenuEntry, query: string): boolean {
+    const haystack = [entry.label, ...(entry.keywords ?? [])].join(" ").toLowerCase();
+    return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word));
 }
 
-export function showContextMenu(e: MouseEvent | TouchEvent, c: Character, callbacks: MenuCallbacks): void {
+// Items the arrow keys move between: the visible entries directly inside `container`
+function getFocusableItems(container: HTMLElement): HTMLElement[] {
+    return Array.from(container.children).filter((child): child is HTMLElement =>
+        child instanceof HTMLElement && child.classList.contains('arkpets-menu-item') && child.style.display !== 'none');
+}
+
+function focusItem(items: HTMLElement[], index: number): void {
+    if (items.length > 0) {
+        items[(index + items.length) % items.length].focus();
+    }
+}
+
+/**
+ * Arrow keys, Home and End move between the items of `container`, Enter and Space activate them,
+ * and Escape closes it. Keys handled by a submenu don't reach its parent menu.
+ */
+function handleMenuKeyDown(e: KeyboardEvent, container: HTMLElement, close: () => void): void {
+    const items = getFocusableItems(container);
+    const target = e.target as HTMLElement;
+    const index = items.indexOf(target);
+    const item = index >= 0 ? target : null;
+    // Leave the keys editing the search box or moving a slider alone
+    if (target instanceof HTMLInputElement && !["ArrowDown", "ArrowUp", "Escape", "Tab"].includes(e.key)) {
+        return;
+    }
+
+    switch (e.key) {
+        case "ArrowDown":
+            focusItem(items, index + 1);
+            break;
+        case "ArrowUp":
+            focusItem(items, index < 0 ? -1 : index - 1);
+            break;
+        case "Home":
+            focusItem(items, 0);
+            break;
+        case "End":
+            focusItem(items, -1);
+            break;
+        case "ArrowRight":
+            if (!item || item.getAttribute('aria-haspopup') !== 'menu') {
+                return;
+            }
+            item.click();
+            break;
+        case "Enter":
+        case " ":
+            if (!item) {
+                return;
+            }
+            item.click();
+            break;
+        case "ArrowLeft":
+        case "Escape":
+            if (e.key === "ArrowLeft" && container.id === 'arkpets-menu') {
+                return;
+            }
+            close();
+            break;
+        case "Tab":
+            // Leave the menu, Tab then moves on from the pet
+            removeMenu(true);
+            return;
+        default:
+            return;
+    }
     e.preventDefault();
-    
-    // Remove existing menu if it exists
-    if (document.getElementById('arkpets-menu')) {
-        removeMenu();
+    e.stopPropagation();
+}
+
+function createEntryElement(entry: MenuEntry, c: Character, locale: string): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'arkpets-menu-item';
+    element.tabIndex = -1;
+    element.setAttribute('role', entry.type === "checkbox" ? 'menuitemcheckbox' : entry.type === "radio" ? 'menuitemradio' : 'menuitem');
+    if (entry.type === "checkbox" || entry.type === "radio") {
+        element.setAttribute('aria-checked', String(!!entry.checked));
     }
 
-    const menu = document.createElement('div');
-    menu.id = 'arkpets-menu';
-    
-    const applyMenuItemStyles = (element: HTMLElement) => {
-        element.classList.add('arkpets-menu-item');
-    };
+    if (entry.type === "checkbox" || entry.type === "radio") {
+        const check = document.createElement('span');
+        check.className = 'arkpets-menu-check';
+        check.textContent = entry.checked ? (entry.type === "radio" ? '●' : '✓') : '';
+        element.appendChild(check);
+    }
+    if (entry.icon) {
+        const icon = document.createElement('img');
+        icon.className = 'arkpets-menu-icon';
+        icon.src = entry.icon;
+        icon.alt = '';
+        element.appendChild(icon);
+    }
+    // Labels may come from a remote catalog or the host page, never treat them as HTML
+    const label = document.createElement('span');
+    label.textContent = entry.label;
+    element.appendChild(label);
+    if (entry.submenu) {
+        // Decoration only, `aria-haspopup` tells assistive technologies
+        const arrow = document.createElement('span');
+        arrow.textContent = ' ▶';
+        arrow.setAttribute('aria-hidden', 'true');
+        element.appendChild(arrow);
+        element.setAttribute('aria-haspopup', 'menu');
+        element.setAttribute('aria-expanded', 'false');
+    }
 
-    // Add Characters submenu if there are characters
-    const models = callbacks.getCharacterModels?.();
-    if (models && models.length > 0) {
-        const charactersMenu = document.createElement('div');
-        charactersMenu.className = 'arkpets-menu-item';
-        charactersMenu.innerHTML = 'Characters ▶';
-        
-        let charactersList: HTMLElement | null = null;
-        charactersMenu.onmouseover = () => {
-            if (!charactersList) {
-                charactersList = createCharactersSubmenu(c, models, callbacks);
-                charactersMenu.appendChild(charactersList);
+    if (entry.disabled) {
+        element.classList.add('arkpets-menu-item-disabled');
+        element.setAttribute('aria-disabled', 'true');
+        return element;
+    }
+
+    const submenuItems = entry.submenu;
+    if (submenuItems) {
+        let submenu: HTMLElement | null = null;
+        const open = (): HTMLElement => {
+            if (!submenu) {
+                submenu = createSubmenu(submenuItems, c, locale, !!entry.searchable, () => {
+                    hide();
+                    element.focus();
+                });
+                element.appendChild(submenu);
                 // Position submenu relative to its parent
-                const rect = charactersMenu.getBoundingClientRect();
-                positionElement(charactersList, rect.right, rect.top, rect);
+                const rect = element.getBoundingClientRect();
+                positionElement(submenu, rect.right, rect.top, rect);
             }
-            charactersList.style.display = 'block';
+            submenu.style.display = 'block';
+            element.setAttribute('aria-expanded', 'true');
+            return submenu;
         };
-        charactersMenu.onmouseout = () => {
-            if (charactersList) {
-                charactersList.style.display = 'none';
+        const hide = () => {
+            if (submenu) {
+                submenu.style.display = 'none';
+                element.setAttribute('aria-expanded', 'false');
             }
         };
-        
-        applyMenuItemStyles(charactersMenu);
-        menu.appendChild(charactersMenu);
-    }
-
-    // Create Actions menu item
-    const actionsMenu = document.createElement('div');
-    actionsMenu.className = 'arkpets-menu-item';
-    actionsMenu.innerHTML = 'Actions ▶';
-    
-    let actionsList: HTMLElement | null = null;
-    actionsMenu.onmouseover = () => {
-        if (!actionsList) {
-            actionsList = createActionsSubmenu(c);
-            actionsMenu.appendChild(actionsList);
-            // Position submenu relative to its parent
-            const rect = actionsMenu.getBoundingClientRect();
-            positionElement(actionsList, rect.right, rect.top, rect);
+        element.onmouseover = () => {
+            open();
+        };
+        element.onmouseout = () => {
+            // Keep it open while the keyboard is in it
+            if (submenu && !submenu.contains(document.activeElement)) {
+                hide();
+            }
+        };
+        if (!entry.onClick) {
+            element.onclick = (e) => {
+                // Only for clicks on the item itself, and Enter, Space or the right arrow
+                if (e.target === element) {
+                    const opened = open();
+                    const search = opened.querySelector<HTMLElement>('.arkpets-menu-search');
+                    (search ?? getFocusableItems(opened)[0])?.focus();
+                }
+            };
         }
-        actionsList.style.display = 'block';
-    };
-    actionsMenu.onmouseout = () => {
-        if (actionsList) {
-            actionsList.style.display = 'none';
+    }
+
+    const onClick = entry.onClick;
+    if (onClick) {
+        element.onclick = (e) => {
+            // Clicks on the items of a submenu bubble up to here
+            e.stopPropagation();
+            removeMenu(true);
+            onClick(c);
+        };
+    }
+    return element;
+}
+
+function createSliderElement(slider: MenuSlider, c: Character): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.className = 'arkpets-menu-item arkpets-menu-slider';
+    input.tabIndex = -1;
+    input.min = String(slider.min);
+    input.max = String(slider.max);
+    input.step = String(slider.step ?? 'any');
+    input.value = String(slider.value);
+    input.setAttribute('aria-label', slider.label);
+    input.oninput = () => slider.onChange(c, Number(input.value));
+    return input;
+}
+
+interface RenderedItems {
+    entries: { entry: MenuEntry; element: HTMLElement }[];
+    // Each header with the entries following it
+    headers: { header: HTMLElement; entries: MenuEntry[] }[];
+}
+
+function appendItems(container: HTMLElement, items: MenuItem[], c: Character, locale: string): RenderedItems {
+    const rendered: RenderedItems = { entries: [], headers: [] };
+    items.forEach(item => {
+        if (item.type === "separator") {
+            const separator = document.createElement('div');
+            separator.className = 'arkpets-menu-separator';
+            separator.setAttribute('role', 'separator');
+            container.appendChild(separator);
+        } else if (item.type === "header") {
+            const header = document.createElement('div');
+            header.textContent = item.label;
+            header.className = 'arkpets-menu-group';
+            header.setAttribute('role', 'presentation');
+            container.appendChild(header);
+            rendered.headers.push({ header, entries: [] });
+        } else if (item.type === "slider") {
+            container.appendChild(createSliderElement(item, c));
+        } else {
+            const element = createEntryElement(item, c, locale);
+            container.appendChild(element);
+            rendered.entries.push({ entry: item, element });
+            rendered.headers[rendered.headers.length - 1]?.entries.push(item);
         }
-    };
-    
-    applyMenuItemStyles(actionsMenu);
-    menu.appendChild(actionsMenu);
-
-    // Add Hide menu item
-    const hideMenu = document.createElement('div');
-    hideMenu.className = 'arkpets-menu-item';
-    hideMenu.innerHTML = 'Hide';
-    hideMenu.onclick = () => {
-        removeMenu();
-        const callback = callbacks.onHideCharacter ?? (() => {
-            c.fadeOut().then(() => {
-                c.destroy();
+    });
+    return rendered;
+}
+
+function createSubmenu(items: MenuItem[], c: Character, locale: string, searchable: boolean, close: () => void): HTMLElement {
+    const submenu = document.createElement('div');
+    submenu.className = 'arkpets-submenu';
+    submenu.setAttribute('role', 'menu');
+    submenu.addEventListener('keydown', e => handleMenuKeyDown(e, submenu, close));
+    const { entries, headers } = appendItems(submenu, items, c, locale);
+
+    // Long lists get a search box
+    if (searchable && entries.length > SEARCH_THRESHOLD) {
+        submenu.classList.add('arkpets-submenu-scrollable');
+        const search = document.createElement('input');
+        search.type = 'search';
+        search.className = 'arkpets-menu-search';
+        search.placeholder = translate("search", locale);
+        search.setAttribute('aria-label', translate("search", locale));
+        search.oninput = () => {
+            const query = search.value.trim();
+            const visible = new Set(entries.filter(({ entry }) => !query || matchesSearch(entry, query)).map(({ entry }) => entry));
+            entries.forEach(({ entry, element }) => {
+                element.style.display = visible.has(entry) ? '' : 'none';
             });
-        });
-        callback(c);
-    };
-    applyMenuItemStyles(hideMenu);
-    
-    // Add About menu item
-    const aboutMenu = document.createElement('div');
-    aboutMenu.className = 'arkpets-menu-item';
-    aboutMenu.innerHTML = 'About';
-    aboutMenu.onclick = () => {
+            headers.forEach(({ header, entries }) => {
+                header.style.display = entries.some(entry => visible.has(entry)) ? '' : 'none';
+            });
+        };
+        submenu.insertBefore(search, submenu.firstChild);
+    }
+
+    return submenu;
+}
+
+// The pet whose menu is open, to give the focus back to
+let menuOwner: Character | null = null;
+
+export function showContextMenu(e: MouseEvent | TouchEvent | KeyboardEvent, c: Character, callbacks: MenuCallbacks): void {
+    e.preventDefault();
+
+    // Remove existing menu if it exists
+    if (document.getElementById('arkpets-menu')) {
         removeMenu();
-        window.open('https://github.com/fuyufjh/ArkPets-Web/', '_blank');
-    };
-    applyMenuItemStyles(aboutMenu);
-    
-    menu.appendChild(hideMenu);
-    menu.appendChild(aboutMenu);
-    
-    // Position the main menu at click/touch position
-    const pageX = 'touches' in e ? e.touches[0].pageX : (e as MouseEvent).pageX;
-    const pageY = 'touches' in e ? e.touches[0].pageY : (e as MouseEvent).pageY;
-    
+    }
+
+    const menu = document.createElement('div');
+    menu.id = 'arkpets-menu';
+    menu.setAttribute('role', 'menu');
+    menu.setAttribute('aria-label', getModelName(c.getModel(), callbacks.locale ?? getLocale()));
+    menu.tabIndex = -1;
+    menu.addEventListener('keydown', e => handleMenuKeyDown(e, menu, () => removeMenu(true)));
+    menuOwner = c;
+
+    const defaults = getDefaultMenuItems(c, callbacks);
+    appendItems(menu, callbacks.items ? callbacks.items(c, defaults) : defaults, c, callbacks.locale ?? getLocale());
+
     document.body.appendChild(menu);
-    positionElement(menu, pageX, pageY);
+    if ('key' in e) {
+        // Opened from the keyboard, show it over the pet and start on its first item
+        const rect = (e.target as HTMLElement).getBoundingClientRect();
+        positionElement(menu, rect.left + rect.width / 2, rect.top + rect.height / 2);
+        focusItem(getFocusableItems(menu), 0);
+    } else {
+        // Position the main menu at click/touch position
+        const pageX = 'touches' in e ? e.touches[0].pageX : e.pageX;
+        const pageY = 'touches' in e ? e.touches[0].pageY : e.pageY;
+        positionElement(menu, pageX, pageY);
+        // Let the arrow keys take over from the mouse
+        menu.focus({ preventScroll: true });
+    }
 
     // Remove menu when clicking outside
     const handleClickOutside = (e: MouseEvent) => {
@@ -179,16 +500,24 @@ export function showContextMenu(e: MouseEvent | TouchEvent, c: Character, callba
             document.removeEventListener('click', handleClickOutside);
         }
     };
-    
+
     // Delay adding the click listener to prevent immediate removal
     setTimeout(() => {
         document.addEventListener('click', handleClickOutside);
     }, 0);
 }
 
-function removeMenu(): void {
+/**
+ * Close the menu. With `restoreFocus`, as when closed from within it, the keyboard focus goes
+ * back to its pet; clicking elsewhere leaves the focus where it was clicked.
+ */
+function removeMenu(restoreFocus: boolean = false): void {
     const menu = document.getElementById('arkpets-menu');
     if (menu) {
         menu.remove();
+        if (restoreFocus) {
+            menuOwner?.focus();
+        }
+        menuOwner = null;
     }
 }
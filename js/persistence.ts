@@ -0,0 +1,262 @@
+import { Action, BehaviorProfile, CharacterModel, PersistenceOptions, StorageAdapter, StorageKind } from './types';
+import { StoredCoordinateSpace } from './coordinates';
+import { getModelName } from './i18n';
+import { validateBehaviorProfile } from './behavior';
+import { isAnimationAliases, isDialoguePools, isLocalizedString, isNonEmptyString, isObject, isStringArray } from './validation';
+
+// Version of the persisted state, bump it and add a migration when its shape changes
+export const STATE_VERSION = 3;
+
+const KEY_PREFIX = 'arkpets-character-';
+const SYNC_CHANNEL = 'arkpets';
+
+export interface PersistedState {
+    version: number;
+    position: { x: number; y: number };
+    // Size chosen by the user, see `Character.setScale`
+    scale: number;
+    coordinateSpace: StoredCoordinateSpace;
+    currentAction: Action;
+    model: CharacterModel;
+}
+
+// State as handed back to the pet; the model is dropped if it is no longer offered
+export type RestoredState = Omit<PersistedState, 'model'> & { model: CharacterModel | null };
+
+interface SyncMessage {
+    key: string;
+    model: CharacterModel;
+}
+
+// `MIGRATIONS[n]` upgrades a state of version n to version n + 1
+const MIGRATIONS: { [version: number]: (state: unknown) => unknown } = {
+    // Version 1 had no version field, called the model `characterResource` and may lack the coordinate space
+    1: state => {
+        if (!isObject(state)) {
+            return state;
+        }
+        const { characterResource, ...rest } = state;
+        return {
+            ...rest,
+            version: 2,
+            coordinateSpace: rest.coordinateSpace ?? "viewport",
+            model: characterResource,
+        };
+    },
+    // Version 2 had no size setting
+    2: state => isObject(state) ? { ...state, version: 3, scale: 1 } : state,
+};
+
+/**
+ * Storage kept in memory, lost when the page is closed.
+ */
+export class MemoryStorage implements StorageAdapter {
+    private items = new Map<string, string>();
+
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+// Shared so that a pet created again on the same page finds its state
+const memoryStorage = new MemoryStorage();
+
+function getStorage(kind: StorageKind): StorageAdapter {
+    if (kind === "memory") {
+        return memoryStorage;
+    }
+    try {
+        // Accessing web storage throws when it is blocked, e.g. with cookies disabled
+        return kind === "local" ? window.localStorage : window.sessionStorage;
+    } catch (error) {
+        console.warn(`${kind} storage is unavailable, keeping pet state in memory:`, error);
+        return memoryStorage;
+    }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+function isValidModel(model: unknown): model is CharacterModel {
+    return isObject(model)
+        && ['id', 'skeleton', 'atlas'].every(field => isNonEmptyString(model[field]))
+        && (isNonEmptyString(model.texture) || isStringArray(model.texture))
+        && isLocalizedString(model.name)
+        && (model.resourcePath === undefined || typeof model.resourcePath === 'string');
+}
+
+function isValidBehavior(behavior: unknown): boolean {
+    try {
+        validateBehaviorProfile(behavior as BehaviorProfile);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Optional fields of a saved model and their checks
+const OPTIONAL_MODEL_FIELDS: { [field in keyof CharacterModel]?: (value: unknown) => boolean } = {
+    skeletonFormat: value => value === "binary" || value === "json",
+    version: value => typeof value === 'string',
+    behavior: value => isObject(value) && isValidBehavior(value),
+    animationAliases: isAnimationAliases,
+    group: value => typeof value === 'string',
+    operator: value => isObject(value) && isNonEmptyString(value.id) && isLocalizedString(value.name),
+    skin: isLocalizedString,
+    tags: isStringArray,
+    dialogue: isDialoguePools,
+};
+
+/**
+ * Copy of a saved model without the optional fields that are malformed, e.g. edited by hand or
+ * written by another version, so that they can't break the pet later on.
+ */
+function sanitizeModel(model: CharacterModel): CharacterModel {
+    const sanitized: { [field: string]: unknown } = { ...model };
+    Object.entries(OPTIONAL_MODEL_FIELDS).forEach(([field, isValid]) => {
+        if (isValid && sanitized[field] !== undefined && !isValid(sanitized[field])) {
+            console.warn(`Ignoring invalid ${field} of saved model ${model.id}`);
+            delete sanitized[field];
+        }
+    });
+    return sanitized as unknown as CharacterModel;
+}
+
+function isValidState(state: unknown): state is PersistedState {
+    return isObject(state)
+        && state.version === STATE_VERSION
+        && isObject(state.position) && isFiniteNumber(state.position.x) && isFiniteNumber(state.position.y)
+        && isFiniteNumber(state.scale) && state.scale > 0
+        && typeof state.coordinateSpace === 'string'
+        && ["viewport", "document", "container"].indexOf(state.coordinateSpace) !== -1
+        && isObject(state.currentAction)
+        && typeof state.currentAction.animation === 'string'
+        && (state.currentAction.direction === "left" || state.currentAction.direction === "right")
+        && isFiniteNumber(state.currentAction.timestamp)
+        && isValidModel(state.model);
+}
+
+function migrate(state: unknown): unknown {
+    // States saved before versioning have no version field
+    let version: unknown = isObject(state) ? state.version ?? 1 : undefined;
+    while (isFiniteNumber(version) && version < STATE_VERSION && MIGRATIONS[version]) {
+        state = MIGRATIONS[version](state);
+        version = isObject(state) ? state.version : undefined;
+    }
+    return state;
+}
+
+/**
+ * Saves and restores the state of a pet through a storage adapter, and optionally tells pets with
+ * the same key in other tabs when the character is changed.
+ */
+export class StateStore {
+    private storage: StorageAdapter;
+    private key: string;
+    private models: CharacterModel[] | (() => CharacterModel[]) | null;
+    private channel: BroadcastChannel | null = null;
+
+    constructor(canvasId: string, options: PersistenceOptions = {}, onRemoteModel?: (model: CharacterModel) => void) {
+        const storage = options.storage ?? "session";
+        this.storage = typeof storage === 'string' ? getStorage(storage) : storage;
+        this.key = options.key ?? KEY_PREFIX + canvasId;
+        this.models = options.models ?? null;
+
+        if (options.sync && onRemoteModel && typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(SYNC_CHANNEL);
+            this.channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+                if (!isObject(event.data) || event.data.key !== this.key || !isValidModel(event.data.model)) {
+                    return;
+                }
+                const model = this.resolveModel(sanitizeModel(event.data.model));
+                if (model) {
+                    onRemoteModel(model);
+                }
+            };
+        }
+    }
+
+    /**
+     * Match a saved model against the models currently offered, if known.
+     */
+    private resolveModel(model: CharacterModel): CharacterModel | null {
+        if (!this.models) {
+            return model;
+        }
+        const models = typeof this.models === 'function' ? this.models() : this.models;
+        return models.find(m => m.id === model.id) ?? null;
+    }
+
+    /**
+     * Read the saved state, upgrading it from older versions. Unreadable state is discarded.
+     */
+    public load(): RestoredState | null {
+        let saved: string | null;
+        try {
+            saved = this.storage.getItem(this.key);
+        } catch (error) {
+            console.warn("Failed to read pet state:", error);
+            return null;
+        }
+        if (saved === null) {
+            return null;
+        }
+
+        let state: unknown;
+        try {
+            state = migrate(JSON.parse(saved));
+        } catch {
+            state = null;
+        }
+        if (!isValidState(state)) {
+            console.warn("Discarding invalid pet state:", saved);
+            this.clear();
+            return null;
+        }
+
+        const model = this.resolveModel(sanitizeModel(state.model));
+        if (!model) {
+            console.log("Saved character is no longer available:", getModelName(state.model));
+        }
+        return { ...state, model };
+    }
+
+    public save(state: Omit<PersistedState, 'version'>): void {
+        try {
+            this.storage.setItem(this.key, JSON.stringify({ version: STATE_VERSION, ...state }));
+        } catch (error) {
+            // Storage may be full or blocked, the pet just won't be restored
+            console.warn("Failed to save pet state:", error);
+        }
+    }
+
+    public clear(): void {
+        try {
+            this.storage.removeItem(this.key);
+        } catch (error) {
+            console.warn("Failed to clear pet state:", error);
+        }
+    }
+
+    /**
+     * Tell the same pet in other tabs that the character was changed.
+     */
+    public publishModel(model: CharacterModel): void {
+        const message: SyncMessage = { key: this.key, model };
+        this.channel?.postMessage(message);
+    }
+
+    public destroy(): void {
+        this.channel?.close();
+        this.channel = null;
+    }
+}
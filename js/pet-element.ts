@@ -0,0 +1,198 @@
+import { Character } from './character';
+import { showContextMenu } from './menu';
+import { loadCatalog } from './catalog';
+import { CharacterModel, CharacterOptions, CoordinateSpaceMode, HitTestMode, PlatformEdgeBehavior, StorageKind } from './types';
+
+export const PET_ELEMENT_TAG = 'ark-pet';
+
+// Catalogs shared by all elements, keyed by URL and locale
+const catalogs = new Map<string, Promise<CharacterModel[]>>();
+let petCount = 0;
+
+function getCatalog(url: string, locale: string | null): Promise<CharacterModel[]> {
+    const key = url + '#' + (locale ?? '');
+    let models = catalogs.get(key);
+    if (!models) {
+        models = loadCatalog(url, locale ? { locale } : {});
+        // Let a later element try again if the catalog couldn't be loaded
+        models.catch(() => catalogs.delete(key));
+        catalogs.set(key, models);
+    }
+    return models;
+}
+
+/**
+ * `<ark-pet>` element adding a pet to the page without writing any script:
+ *
+ * ```html
+ * <ark-pet catalog="assets/models/catalog.json" model="pepe" interactive></ark-pet>
+ * ```
+ *
+ * Attributes:
+ * - `catalog`: URL of the model catalog, required
+ * - `model`: id of the model to show, a random one if omitted. Changing it switches the character
+ * - `fallback-model`: id of the model to show if the first one fails to load
+ * - `interactive`: let the pet be clicked and dragged, and open the context menu. Can be toggled
+ * - `locale`: locale of the model names and the menu, defaults to the browser's
+ * - `coordinate-space`: "viewport" (default) or "document"
+ * - `platforms`: selector of page elements the pet can stand on
+ * - `platform-edges`: "turn" (default) or "fall"
+ * - `storage`: where the pet's state is kept, "session" (default), "local" or "memory"
+ * - `sync`: follow character changes made to this pet in other tabs
+ * - `hit-test`: "pixel" (default) or "geometry"
+ * - `max-fps`: frame rate cap
+ *
+ * Other attributes are only read when the element is added to the page. Removing the element removes the pet.
+ */
+export class ArkPetElement extends HTMLElement {
+    static get observedAttributes(): string[] {
+        return ['model', 'interactive', 'catalog'];
+    }
+
+    private pet: Character | null = null;
+    private models: CharacterModel[] = [];
+    // Invalidates a pending setup when the element is removed in the meantime
+    private generation: number = 0;
+    private petId: string;
+
+    constructor() {
+        super();
+        this.petId = 'ark-pet-' + (++petCount);
+    }
+
+    /**
+     * The pet shown by this element, null until it's set up.
+     */
+    public get character(): Character | null {
+        return this.pet;
+    }
+
+    public connectedCallback(): void {
+        this.setup().catch(error => console.error(`Failed to set up <${PET_ELEMENT_TAG}>:`, error));
+    }
+
+    public disconnectedCallback(): void {
+        this.generation++;
+        if (this.pet) {
+            this.pet.destroy();
+            this.pet = null;
+        }
+    }
+
+    public attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+        if (!this.pet || oldValue === newValue) {
+            return;
+        }
+        switch (name) {
+            case 'model': {
+                const model = this.findModel(newValue);
+                if (model && model.id !== this.pet.getModel().id) {
+                    // Failures are reported by the pet, which keeps the current character
+                    this.pet.loadCharacterModel(model).catch(() => undefined);
+                }
+                break;
+            }
+            case 'interactive':
+                this.pet.setAllowInteract(newValue !== null);
+                break;
+            case 'catalog':
+                this.refreshCatalog().catch(error => console.error("Failed to load catalog:", error));
+                break;
+        }
+    }
+
+    private async setup(): Promise<void> {
+        const generation = ++this.generation;
+        const catalog = this.getAttribute('catalog');
+        if (!catalog) {
+            throw new Error('Missing "catalog" attribute');
+        }
+        const models = await getCatalog(catalog, this.getAttribute('locale'));
+        if (generation !== this.generation) {
+            return;
+        }
+        if (models.length === 0) {
+            throw new Error(`No models in catalog ${catalog}`);
+        }
+        this.models = models;
+
+        const model = this.findModel(this.getAttribute('model')) ?? models[Math.floor(Math.random() * models.length)];
+        const pet = new Character(
+            // The element keeps its own id, the canvas can't share it
+            this.id ? 'ark-pet-' + this.id : this.petId,
+            e => showContextMenu(e, pet, {
+                getCharacterModels: () => this.models,
+                locale: this.getAttribute('locale') ?? undefined,
+                // Switch through the attribute so that it reflects the current model
+                onSelectCharacter: (c, selected) => {
+                    if (this.getAttribute('model') === selected.id) {
+                        c.loadCharacterModel(selected).catch(() => undefined);
+                    } else {
+                        this.setAttribute('model', selected.id);
+                    }
+                },
+            }),
+            model,
+            this.hasAttribute('interactive'),
+            this.getOptions(),
+        );
+        this.pet = pet;
+    }
+
+    private async refreshCatalog(): Promise<void> {
+        const catalog = this.getAttribute('catalog');
+        if (!catalog) {
+            return;
+        }
+        const generation = this.generation;
+        const models = await getCatalog(catalog, this.getAttribute('locale'));
+        if (generation === this.generation) {
+            this.models = models;
+        }
+    }
+
+    private findModel(id: string | null): CharacterModel | undefined {
+        return id ? this.models.find(model => model.id === id) : undefined;
+    }
+
+    private getOptions(): CharacterOptions {
+        const options: CharacterOptions = {
+            fallbackModel: this.findModel(this.getAttribute('fallback-model')),
+            persistence: {
+                storage: (this.getAttribute('storage') ?? undefined) as StorageKind | undefined,
+                // Read when needed, the catalog may have been reloaded since
+                models: () => this.models,
+                sync: this.hasAttribute('sync'),
+            },
+        };
+        const coordinateSpace = this.getAttribute('coordinate-space');
+        if (coordinateSpace) {
+            options.coordinateSpace = coordinateSpace as CoordinateSpaceMode;
+        }
+        const hitTest = this.getAttribute('hit-test');
+        if (hitTest) {
+            options.hitTest = hitTest as HitTestMode;
+        }
+        const maxFps = parseFloat(this.getAttribute('max-fps') ?? '');
+        if (maxFps > 0) {
+            options.scheduler = { maxFps };
+        }
+        const platforms = this.getAttribute('platforms');
+        if (platforms) {
+            options.platforms = {
+                selector: platforms,
+                edges: (this.getAttribute('platform-edges') ?? undefined) as PlatformEdgeBehavior | undefined,
+            };
+        }
+        return options;
+    }
+}
+
+/**
+ * Register the `<ark-pet>` element. Done automatically when the bundle is loaded.
+ */
+export function defineArkPetElement(): void {
+    if (typeof customElements !== 'undefined' && !customElements.get(PET_ELEMENT_TAG)) {
+        customElements.define(PET_ELEMENT_TAG, ArkPetElement);
+    }
+}
@@ -0,0 +1,62 @@
+import { Character } from './character';
+import { RenderContext } from './render-context';
+import { CharacterModel, CharacterOptions, PetManagerOptions } from './types';
+import { FrameScheduler } from './scheduler';
+
+/**
+ * Runs many pets on a single WebGL context and a single animation loop.
+ * Browsers limit the number of live WebGL contexts, so pages with several pets should use this
+ * instead of creating `Character`s directly. Pets using the same model share its loaded assets.
+ */
+export class PetManager {
+    private renderContext: RenderContext;
+    private pets: Character[] = [];
+    private scheduler: FrameScheduler;
+    private options: PetManagerOptions;
+
+    constructor(options: PetManagerOptions = {}) {
+        this.options = options;
+        // The shared canvas is never attached to the page, each pet copies its part of it
+        this.renderContext = new RenderContext(document.createElement('canvas'), true);
+        // Each pet skips frames on its own to honor its frame rate limits
+        this.scheduler = new FrameScheduler(() => this.pets.forEach(pet => pet.renderFrame()));
+    }
+
+    public add(canvasId: string, onContextMenu: (e: MouseEvent | TouchEvent | KeyboardEvent) => void, initialCharacter: CharacterModel, allowInteract: boolean = true, options: CharacterOptions = {}): Character {
+        const pet = new Character(canvasId, onContextMenu, initialCharacter, allowInteract, {
+            ...options,
+            renderContext: this.renderContext,
+            neighbors: this.options.interactions ? () => this.pets : undefined,
+        });
+        this.pets.push(pet);
+
+        // Pets may also be destroyed on their own, e.g. from the context menu
+        pet.once('destroyed', () => this.detach(pet));
+
+        this.scheduler.start();
+        return pet;
+    }
+
+    public remove(pet: Character): void {
+        if (this.pets.indexOf(pet) !== -1) {
+            pet.destroy();
+        }
+    }
+
+    public list(): Character[] {
+        return this.pets.slice();
+    }
+
+    public destroy(): void {
+        this.list().forEach(pet => pet.destroy());
+        this.scheduler.stop();
+        this.renderContext.dispose();
+    }
+
+    private detach(pet: Character): void {
+        const index = this.pets.indexOf(pet);
+        if (index !== -1) {
+            this.pets.splice(index, 1);
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import { PhysicsOptions } from './types';
+
+// Defaults matching the original behavior at 60 FPS
+export const DEFAULT_PHYSICS: Required<PhysicsOptions> = {
+    gravity: 1000,
+    drag: 0.3, // 0.98 per frame
+    friction: 1, // only drag slows down sliding
+    maxVelocity: 1000,
+    minVelocity: 5,
+    bounceDamping: 0.7,
+    movingSpeed: 30,
+    hardThrowSpeed: 1500,
+};
+
+/**
+ * Fill in defaults and check the values. Throws an error describing the first invalid option.
+ */
+export function resolvePhysicsOptions(options: PhysicsOptions = {}): Required<PhysicsOptions> {
+    const resolved = { ...DEFAULT_PHYSICS, ...options };
+    for (const key of ["drag", "friction", "bounceDamping"] as const) {
+        if (!(resolved[key] >= 0 && resolved[key] <= 1)) {
+            throw new Error(`Physics option ${key} must be between 0 and 1, got ${resolved[key]}`);
+        }
+    }
+    for (const key of ["gravity", "maxVelocity", "minVelocity", "movingSpeed", "hardThrowSpeed"] as const) {
+        if (!(resolved[key] >= 0)) {
+            throw new Error(`Physics option ${key} must be a non-negative number, got ${resolved[key]}`);
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Move along one axis for `delta` seconds under a constant `acceleration`, while `drag` is the
+ * fraction of the velocity kept after one second. The motion is solved exactly rather than
+ * stepped, so the result doesn't depend on the frame rate.
+ */
+export function integrateAxis(position: number, velocity: number, acceleration: number, drag: number, delta: number): { position: number; velocity: number } {
+    if (drag >= 1) {
+        return {
+            position: position + velocity * delta + acceleration * delta * delta / 2,
+            velocity: velocity + acceleration * delta,
+        };
+    }
+    // dv/dt = acceleration - k * v, which tends to the terminal velocity acceleration / k
+    const k = -Math.log(Math.max(drag, Number.MIN_VALUE));
+    const decay = Math.exp(-k * delta);
+    const terminal = acceleration / k;
+    return {
+        position: position + terminal * delta + (velocity - terminal) * (1 - decay) / k,
+        velocity: terminal + (velocity - terminal) * decay,
+    };
+}
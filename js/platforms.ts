@@ -0,0 +1,68 @@
+import { CoordinateSpace } from './coordinates';
+import { PlatformOptions } from './types';
+
+export interface Ledge {
+    element: Element;
+    // Coordinates of the top edge, in the pet's coordinate space
+    left: number;
+    right: number;
+    top: number;
+}
+
+/**
+ * Keeps track of the top edges of page elements that pets can stand and walk on.
+ * Ledges are recomputed lazily after scrolling, resizing or DOM mutations.
+ */
+export class PlatformTracker {
+    private selector: string;
+    private space: CoordinateSpace;
+    private ledges: Ledge[] = [];
+    private dirty: boolean = true;
+    private observer: MutationObserver;
+    private markDirtyRef: () => void;
+
+    constructor(options: PlatformOptions, space: CoordinateSpace) {
+        this.selector = options.selector;
+        this.space = space;
+        this.markDirtyRef = () => { this.dirty = true; };
+
+        window.addEventListener('scroll', this.markDirtyRef, { capture: true, passive: true });
+        window.addEventListener('resize', this.markDirtyRef);
+        window.addEventListener('load', this.markDirtyRef);
+
+        // Style attributes are left out, pets move their own canvas by style every frame
+        this.observer = new MutationObserver(this.markDirtyRef);
+        this.observer.observe(document.body, {
+            childList: true,
+            subtree: true,
+            characterData: true,
+            attributes: true,
+            attributeFilter: ['class', 'hidden'],
+        });
+    }
+
+    public getLedges(): Ledge[] {
+        if (this.dirty) {
+            this.dirty = false;
+            this.ledges = [];
+            const bounds = this.space.getSize();
+            document.querySelectorAll(this.selector).forEach(element => {
+                const rect = element.getBoundingClientRect();
+                const topLeft = this.space.fromClient(rect.left, rect.top);
+                // Skip hidden elements and those out of reach, e.g. scrolled out of the viewport
+                if (rect.width === 0 || rect.height === 0 || topLeft.y < 0 || topLeft.y > bounds.height) {
+                    return;
+                }
+                this.ledges.push({ element, left: topLeft.x, right: topLeft.x + rect.width, top: topLeft.y });
+            });
+        }
+        return this.ledges;
+    }
+
+    public destroy(): void {
+        window.removeEventListener('scroll', this.markDirtyRef, { capture: true });
+        window.removeEventListener('resize', this.markDirtyRef);
+        window.removeEventListener('load', this.markDirtyRef);
+        this.observer.disconnect();
+    }
+}
@@ -0,0 +1,19 @@
+import { Clock, RandomSource } from './types';
+
+export const systemClock: Clock = {
+    now: () => Date.now() / 1000,
+};
+
+/**
+ * Deterministic random numbers in [0, 1) from a 32-bit seed (mulberry32), to replay a simulation.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,318 @@
+import spine from '../libs/spine-webgl.js';
+import webgl = spine.webgl;
+import outlineFragmentShader from '../shaders/OutlineFragment.glsl';
+import outlineVertexShader from '../shaders/OutlineVertex.glsl';
+import { CharacterModel, SkeletonFormat } from './types.js';
+import { AssetCache, getDeclaredSkeletonFormat, getModelFiles, ProgressCallback } from './asset-cache';
+import { CorruptSkeletonError } from './errors';
+import { EffectProgram, getEffect } from './effects';
+import { getModelName } from './i18n';
+
+export interface RenderTarget {
+    framebuffer: WebGLFramebuffer;
+    texture: WebGLTexture;
+}
+
+/**
+ * Tell a JSON skeleton from a binary one by its first character.
+ */
+async function detectSkeletonFormat(skeleton: Blob): Promise<SkeletonFormat> {
+    const start = await skeleton.slice(0, 64).text();
+    return start.trimStart().startsWith("{") ? "json" : "binary";
+}
+
+interface LoadedModel {
+    skeletonData: spine.SkeletonData | null;
+    refCount: number;
+    loading: Promise<void>;
+}
+
+/**
+ * WebGL resources needed to draw characters: the context itself, the Spine renderer,
+ * the framebuffer for the outline pass and the loaded assets.
+ *
+ * A standalone `Character` owns a context drawing directly to its canvas. A `PetManager`
+ * owns a single shared context on an offscreen canvas, and every pet copies its part of it.
+ */
+export class RenderContext {
+    public readonly canvas: HTMLCanvasElement;
+    public readonly gl: WebGLRenderingContext;
+    public readonly shared: boolean;
+    public shader!: webgl.Shader;
+    public batcher!: webgl.PolygonBatcher;
+    public skeletonRenderer!: webgl.SkeletonRenderer;
+    public assetManager!: webgl.AssetManager;
+    public framebuffer!: WebGLFramebuffer;
+    public framebufferTexture!: WebGLTexture;
+    public outlineProgram!: EffectProgram;
+    public quadBuffer!: WebGLBuffer;
+
+    // Second framebuffer for chains of custom effects, created on first use
+    private effectTarget: RenderTarget | null = null;
+    // Compiled custom effects by name, null if compilation failed
+    private effectPrograms = new Map<string, EffectProgram | null>();
+
+    private textureWidth: number = 0;
+    private textureHeight: number = 0;
+
+    // Models keyed by skeleton path, shared by all characters drawn with this context
+    private models = new Map<string, LoadedModel>();
+
+    constructor(canvas: HTMLCanvasElement, shared: boolean = false) {
+        this.canvas = canvas;
+        this.shared = shared;
+        this.gl = this.canvas.getContext("webgl", {
+            alpha: true,
+            premultipliedAlpha: false
+        }) as WebGLRenderingContext;
+
+        if (!this.gl) {
+            throw new Error('WebGL is unavailable.');
+        }
+
+        // Set up WebGL context
+        this.gl.enable(this.gl.BLEND);
+        this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+
+        this.initFramebuffer();
+
+        // Create WebGL objects
+        const managedContext = new webgl.ManagedWebGLRenderingContext(this.gl);
+        this.shader = webgl.Shader.newColoredTextured(managedContext);
+        this.batcher = new webgl.PolygonBatcher(managedContext, false);
+        this.skeletonRenderer = new webgl.SkeletonRenderer(managedContext, false);
+        this.skeletonRenderer.premultipliedAlpha = true;
+        this.assetManager = new webgl.AssetManager(managedContext);
+    }
+
+    private initFramebuffer(): void {
+        // Create and bind framebuffer
+        this.framebuffer = this.gl.createFramebuffer()!;
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+
+        // Create and bind texture
+        this.framebufferTexture = this.createTexture(this.canvas.width, this.canvas.height);
+        this.textureWidth = this.canvas.width;
+        this.textureHeight = this.canvas.height;
+
+        // Attach texture to framebuffer
+        this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0, this.gl.TEXTURE_2D, this.framebufferTexture, 0);
+
+        // Create quad buffer for second pass
+        this.quadBuffer = this.gl.createBuffer()!;
+        this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.quadBuffer);
+        this.gl.bufferData(this.gl.ARRAY_BUFFER, new Float32Array([
+            -1, -1,  // Bottom left
+             1, -1,  // Bottom right
+            -1,  1,  // Top left
+             1,  1   // Top right
+        ]), this.gl.STATIC_DRAW);
+
+        // Create and compile outline shader
+        this.outlineProgram = new EffectProgram(this.gl, outlineVertexShader, outlineFragmentShader);
+    }
+
+    private createTexture(width: number, height: number): WebGLTexture {
+        const texture = this.gl.createTexture()!;
+        this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+        this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, width, height, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+        this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    /**
+     * Framebuffer the custom effects alternate with the main one.
+     */
+    public getEffectTarget(): RenderTarget {
+        if (!this.effectTarget) {
+            const texture = this.createTexture(this.textureWidth, this.textureHeight);
+            const framebuffer = this.gl.createFramebuffer()!;
+            this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, framebuffer);
+            this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0, this.gl.TEXTURE_2D, texture, 0);
+            this.effectTarget = { framebuffer, texture };
+        }
+        return this.effectTarget;
+    }
+
+    /**
+     * Program of a registered custom effect, compiled on first use. Null if it doesn't compile.
+     */
+    public getEffectProgram(name: string): EffectProgram | null {
+        let program = this.effectPrograms.get(name);
+        if (program === undefined) {
+            const effect = getEffect(name);
+            if (!effect) {
+                return null;
+            }
+            try {
+                program = new EffectProgram(this.gl, outlineVertexShader, effect.fragmentShader);
+            } catch (error) {
+                console.error(`Failed to compile effect ${name}:`, error);
+                program = null;
+            }
+            this.effectPrograms.set(name, program);
+        }
+        return program;
+    }
+
+    /**
+     * Make sure a character of the given size (in device pixels) can be drawn.
+     * A shared canvas only ever grows, so that it fits the largest pet.
+     */
+    public reserve(width: number, height: number): void {
+        if (this.shared) {
+            if (this.canvas.width < width) this.canvas.width = width;
+            if (this.canvas.height < height) this.canvas.height = height;
+        }
+        if (this.textureWidth !== this.canvas.width || this.textureHeight !== this.canvas.height) {
+            this.textureWidth = this.canvas.width;
+            this.textureHeight = this.canvas.height;
+            const textures = this.effectTarget ? [this.framebufferTexture, this.effectTarget.texture] : [this.framebufferTexture];
+            textures.forEach(texture => {
+                this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+                this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA, this.textureWidth, this.textureHeight, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
+            });
+        }
+    }
+
+    public getTextureSize(): { width: number; height: number } {
+        return { width: this.textureWidth, height: this.textureHeight };
+    }
+
+    private getModelKey(model: CharacterModel): string {
+        return (model.resourcePath ?? "") + model.skeleton;
+    }
+
+    /**
+     * Download the assets of a model, or reuse them if another character already loaded it.
+     * Every successful call must be paired with `releaseModel`.
+     * Progress is only reported to the call that actually starts the download.
+     */
+    public async loadModel(model: CharacterModel, cache: AssetCache, onProgress?: ProgressCallback): Promise<void> {
+        const key = this.getModelKey(model);
+        let loaded = this.models.get(key);
+        if (!loaded) {
+            loaded = { skeletonData: null, refCount: 0, loading: this.downloadModel(model, cache, onProgress) };
+            this.models.set(key, loaded);
+        }
+        loaded.refCount++;
+        try {
+            await loaded.loading;
+        } catch (error) {
+            this.releaseModel(model);
+            throw error;
+        }
+    }
+
+    private async downloadModel(model: CharacterModel, cache: AssetCache, onProgress?: ProgressCallback): Promise<void> {
+        console.log("Downloading character assets for", getModelName(model));
+
+        // Assets are keyed by their full path so that models from different places don't clash
+        const files = getModelFiles(model);
+        const paths = files.map(file => file.path);
+
+        const blobs = await cache.fetchModel(model, files, onProgress);
+        const objectUrls = blobs.map(blob => URL.createObjectURL(blob));
+
+        paths.forEach((path, i) => {
+            this.assetManager.setRawDataURI(path, objectUrls[i]);
+        });
+
+        // Load skeleton and atlas, whose pages are found among the texture files by their paths
+        const [skeletonPath, atlasPath] = paths;
+        const format = getDeclaredSkeletonFormat(model) ?? await detectSkeletonFormat(blobs[0]);
+        await new Promise<void>((resolve, reject) => {
+            const onSkeletonLoaded = () => {
+                this.assetManager.loadTextureAtlas(atlasPath, () => {
+                    console.log("Loaded character assets for", getModelName(model));
+                    resolve();
+                }, (path, error) => reject(new CorruptSkeletonError(`Failed to load atlas: ${error}`, model)));
+            };
+            const onSkeletonError = (path: string, error: string) => reject(new CorruptSkeletonError(`Failed to load skeleton: ${error}`, model));
+            if (format === "json") {
+                this.assetManager.loadText(skeletonPath, onSkeletonLoaded, onSkeletonError);
+            } else {
+                this.assetManager.loadBinary(skeletonPath, onSkeletonLoaded, onSkeletonError);
+            }
+        }).finally(() => {
+            // Cleanup object URLs and raw data URIs
+            paths.forEach((path, i) => {
+                URL.revokeObjectURL(objectUrls[i]);
+                this.assetManager.setRawDataURI(path, "");
+            });
+        });
+    }
+
+    /**
+     * Skeleton data of a loaded model. Parsed once and shared between characters.
+     */
+    public getSkeletonData(model: CharacterModel, scale: number): spine.SkeletonData {
+        const loaded = this.models.get(this.getModelKey(model));
+        if (!loaded) {
+            throw new Error(`Model ${getModelName(model)} is not loaded`);
+        }
+        if (!loaded.skeletonData) {
+            const basePath = model.resourcePath ?? "";
+            const atlas = this.assetManager.get(basePath + model.atlas);
+            const atlasLoader = new spine.AtlasAttachmentLoader(atlas);
+            // JSON skeletons were loaded as text, binary ones as bytes
+            const skeleton: string | Uint8Array = this.assetManager.get(basePath + model.skeleton);
+            try {
+                if (typeof skeleton === "string") {
+                    const skeletonJson = new spine.SkeletonJson(atlasLoader);
+                    skeletonJson.scale = scale;
+                    loaded.skeletonData = skeletonJson.readSkeletonData(skeleton);
+                } else {
+                    const skeletonBinary = new spine.SkeletonBinary(atlasLoader);
+                    skeletonBinary.scale = scale;
+                    loaded.skeletonData = skeletonBinary.readSkeletonData(skeleton);
+                }
+            } catch (error) {
+                throw new CorruptSkeletonError(`Failed to parse skeleton of ${getModelName(model)}: ${error}`, model, error);
+            }
+        }
+        return loaded.skeletonData;
+    }
+
+    /**
+     * Drop a reference to a model, and free its assets once no character uses it.
+     */
+    public releaseModel(model: CharacterModel): void {
+        const key = this.getModelKey(model);
+        const loaded = this.models.get(key);
+        if (!loaded) {
+            return;
+        }
+        loaded.refCount--;
+        if (loaded.refCount <= 0) {
+            this.models.delete(key);
+            // Assets may be missing if the download failed
+            getModelFiles(model).forEach(({ path }) => {
+                if (this.assetManager.get(path)) {
+                    this.assetManager.remove(path);
+                }
+            });
+        }
+    }
+
+    /**
+     * Release WebGL resources
+     */
+    public dispose(): void {
+        this.models.clear();
+        this.assetManager.dispose();
+        this.gl.deleteFramebuffer(this.framebuffer);
+        this.gl.deleteTexture(this.framebufferTexture);
+        this.gl.deleteBuffer(this.quadBuffer);
+        this.outlineProgram.dispose();
+        if (this.effectTarget) {
+            this.gl.deleteFramebuffer(this.effectTarget.framebuffer);
+            this.gl.deleteTexture(this.effectTarget.texture);
+        }
+        this.effectPrograms.forEach(program => program?.dispose());
+        this.effectPrograms.clear();
+    }
+}
@@ -0,0 +1,112 @@
+import { SchedulerOptions } from './types';
+
+export const DEFAULT_SCHEDULER_OPTIONS: Required<SchedulerOptions> = {
+    maxFps: Infinity,
+    idleFps: 10,
+    lowBatteryFps: 30,
+    respectReducedMotion: true,
+};
+
+// Battery level below which frames are capped to `lowBatteryFps`, when not charging
+const LOW_BATTERY_LEVEL = 0.2;
+
+// Subset of the Battery Status API, which isn't in the DOM typings
+interface BatteryManager extends EventTarget {
+    charging: boolean;
+    level: number;
+}
+
+let lowBattery = false;
+let batteryWatched = false;
+let reducedMotionQuery: MediaQueryList | null = null;
+
+/**
+ * Whether the device runs on a low battery. Only known once the Battery Status API answered,
+ * and always false where it isn't supported.
+ */
+export function isLowBattery(): boolean {
+    if (!batteryWatched) {
+        batteryWatched = true;
+        const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+        getBattery?.call(navigator).then(battery => {
+            const update = () => {
+                lowBattery = !battery.charging && battery.level <= LOW_BATTERY_LEVEL;
+            };
+            update();
+            battery.addEventListener('levelchange', update);
+            battery.addEventListener('chargingchange', update);
+        }).catch(() => undefined);
+    }
+    return lowBattery;
+}
+
+export function prefersReducedMotion(): boolean {
+    if (!reducedMotionQuery && typeof matchMedia !== 'undefined') {
+        reducedMotionQuery = matchMedia('(prefers-reduced-motion: reduce)');
+    }
+    return reducedMotionQuery?.matches ?? false;
+}
+
+/**
+ * Calls `tick` on every animation frame while the page is visible. The loop stops entirely in
+ * hidden tabs instead of relying on browsers to throttle it.
+ */
+export class FrameScheduler {
+    private tick: () => void;
+    private running: boolean = false;
+    private animationFrameId: number | null = null;
+    private loopRef: () => void;
+    private onVisibilityChangeRef: () => void;
+
+    constructor(tick: () => void) {
+        this.tick = tick;
+        this.loopRef = this.loop.bind(this);
+        this.onVisibilityChangeRef = this.onVisibilityChange.bind(this);
+    }
+
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    public start(): void {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        document.addEventListener('visibilitychange', this.onVisibilityChangeRef);
+        this.request();
+    }
+
+    public stop(): void {
+        this.running = false;
+        document.removeEventListener('visibilitychange', this.onVisibilityChangeRef);
+        this.cancel();
+    }
+
+    private request(): void {
+        if (this.running && !document.hidden && this.animationFrameId === null) {
+            this.animationFrameId = requestAnimationFrame(this.loopRef);
+        }
+    }
+
+    private cancel(): void {
+        if (this.animationFrameId !== null) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = null;
+        }
+    }
+
+    private loop(): void {
+        this.animationFrameId = null;
+        this.tick();
+        this.request();
+    }
+
+    private onVisibilityChange(): void {
+        if (document.hidden) {
+            this.cancel();
+        } else {
+            this.request();
+        }
+    }
+}
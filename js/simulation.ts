@@ -0,0 +1,614 @@
+import type { Ledge } from './platforms';
+import { Action, BehaviorProfile, Clock, Direction, PhysicsOptions, PlatformEdgeBehavior, RandomSource, SimulationEventMap, SimulationOptions } from './types';
+import { DEFAULT_BEHAVIOR_PROFILES } from './behavior';
+import { EventEmitter, EventListener } from './events';
+import { integrateAxis, resolvePhysicsOptions } from './physics';
+import { systemClock } from './random';
+
+// Pet-to-pet interactions. The character only covers the lower middle part of its canvas
+const BODY_WIDTH_RATIO = 0.4; // body width relative to canvas width
+const BODY_CENTER_RATIO = 0.7; // vertical body center relative to canvas height
+const WALK_STOP_PROBABILITY = 0.3; // chance to stop instead of turning around when meeting another pet
+const SOCIAL_DISTANCE_RATIO = 0.8; // max distance between idle pets to interact, relative to canvas width
+const SOCIAL_RATE = 0.05; // chance per second for two close idle pets to interact
+const SOCIAL_COOLDOWN = 15; // seconds before a pet interacts socially again
+
+const TURN_PROBABILITY = 0.4; // chance to turn around when starting to walk
+
+/**
+ * Find the ledge to stand on at horizontal position `x`, for feet at `feetY`.
+ * The ledge currently stood on is kept as long as `x` is over it, so that the pet follows it when
+ * the page scrolls. Otherwise the highest ledge not above the feet is picked.
+ */
+function findLedge(ledges: Ledge[], x: number, feetY: number, current: Ledge["element"] | null): Ledge | null {
+    let found: Ledge | null = null;
+    for (const ledge of ledges) {
+        if (x < ledge.left || x > ledge.right) {
+            continue;
+        }
+        if (ledge.element === current) {
+            return ledge;
+        }
+        // Allow a pixel of tolerance for rounding
+        if (ledge.top >= feetY - 1 && (!found || ledge.top < found.top)) {
+            found = ledge;
+        }
+    }
+    return found;
+}
+
+/**
+ * Position, physics and the animation state machine of a pet, without any DOM or WebGL.
+ * `Character` draws it; on its own it runs in Node, with a fixed clock and seeded RNG for
+ * reproducible runs.
+ *
+ * Coordinates are those of the pet's box, from the top left corner of the bounds, y pointing down.
+ */
+export class PetSimulation {
+    private clock: Clock;
+    private random: RandomSource;
+    private options: SimulationOptions;
+    private lastTickTime: number;
+
+    private events = new EventEmitter<SimulationEventMap>();
+
+    private behavior: BehaviorProfile = DEFAULT_BEHAVIOR_PROFILES.standard;
+    private physics: Required<PhysicsOptions>;
+    private platformEdges: PlatformEdgeBehavior;
+
+    private action: Action = {
+        animation: "Relax",
+        direction: "right",
+        timestamp: 0
+    };
+
+    private position = {
+        x: -1, // will be set to a random value
+        y: 1e9 // will be bounded to the bottom of the bounds
+    };
+    private size = { width: 0, height: 0 };
+    private velocity = { x: 0, y: 0 };
+
+    private dragging: boolean = false;
+    private airborne: boolean = false;
+    // Released fast enough to play the `hardThrow` reaction when landing
+    private thrownHard: boolean = false;
+    private standingOn: Ledge["element"] | null = null;
+    private socialCooldown: number = 0;
+
+    constructor(options: SimulationOptions) {
+        this.options = options;
+        this.clock = options.clock ?? systemClock;
+        this.random = options.random ?? Math.random;
+        this.physics = resolvePhysicsOptions(options.physics);
+        this.platformEdges = options.platformEdges ?? "turn";
+        this.lastTickTime = this.clock.now();
+    }
+
+    public on<K extends keyof SimulationEventMap>(event: K, listener: EventListener<SimulationEventMap[K]>): void {
+        this.events.on(event, listener);
+    }
+
+    public off<K extends keyof SimulationEventMap>(event: K, listener: EventListener<SimulationEventMap[K]>): void {
+        this.events.off(event, listener);
+    }
+
+    public once<K extends keyof SimulationEventMap>(event: K, listener: EventListener<SimulationEventMap[K]>): void {
+        this.events.once(event, listener);
+    }
+
+    public destroy(): void {
+        this.events.removeAllListeners();
+    }
+
+    /**
+     * Advance by the time elapsed on the clock since the last tick. Returns that time in seconds.
+     */
+    public tick(): number {
+        const now = this.clock.now();
+        const delta = now - this.lastTickTime;
+        this.lastTickTime = now;
+        this.step(delta);
+        return delta;
+    }
+
+    public getTimeSinceTick(): number {
+        return this.clock.now() - this.lastTickTime;
+    }
+
+    /**
+     * Forget the time elapsed since the last tick, e.g. after being paused.
+     */
+    public resetClock(): void {
+        this.lastTickTime = this.clock.now();
+    }
+
+    /**
+     * A number in [0, 1) from the simulation's random source.
+     */
+    public nextRandom(): number {
+        return this.random();
+    }
+
+    /**
+     * Advance the simulation by `delta` seconds.
+     */
+    public step(delta: number): void {
+        this.action.timestamp += delta;
+
+        // Leave the current state once its maximum dwell time is exceeded, or right away if it's
+        // a walk and the user asked for reduced motion
+        const dwell = this.behavior.dwellTimes?.[this.action.animation];
+        if ((dwell && this.action.timestamp >= dwell.max && !this.isHoldingAirbornePose())
+            || (this.isReducedMotion() && this.isMovingAnimation(this.action.animation))) {
+            this.transitionToNextAction();
+        }
+
+        // Apply physics when not dragging
+        if (!this.dragging) {
+            this.applyPhysics(delta);
+        }
+
+        // Move when a moving animation (e.g. "Move") is playing
+        if (this.isMovingAnimation(this.action.animation)) {
+            this.walk(delta);
+        }
+
+        if (this.options.getNeighbors) {
+            this.interactWithNeighbors(this.options.getNeighbors(), delta);
+        }
+    }
+
+    private applyPhysics(delta: number): void {
+        const { gravity, drag, friction, minVelocity } = this.physics;
+
+        // Apply gravity and drag, and update position
+        const previousFeetY = this.position.y + this.size.height;
+        const x = integrateAxis(this.position.x, this.velocity.x, 0, drag, delta);
+        const y = integrateAxis(this.position.y, this.velocity.y, gravity, drag, delta);
+        this.position.x = x.position;
+        this.position.y = y.position;
+        this.velocity.x = x.velocity;
+        this.velocity.y = y.velocity;
+        this.clampVelocity();
+
+        // Slow down when sliding on the ground. Vertical speed is small only at the top of a
+        // fall, and reset on landing anyway
+        if (!this.airborne) {
+            this.velocity.x *= Math.pow(friction, delta);
+        }
+        if (Math.abs(this.velocity.x) < minVelocity) {
+            this.velocity.x = 0;
+        }
+
+        // Bounds collision
+        const bounds = this.options.getBounds();
+        const maxX = bounds.width - this.size.width;
+        let maxY = bounds.height - this.size.height;
+
+        // Land on the ledge underneath, if any
+        const ledge = this.findLedge(previousFeetY);
+        if (ledge) {
+            maxY = Math.min(maxY, ledge.top - this.size.height);
+            // Follow the ledge when it moves, e.g. when the page scrolls
+            if (ledge.element === this.standingOn && this.velocity.y >= 0) {
+                this.position.y = maxY;
+            }
+        }
+
+        // Bounce off walls
+        let hitWall = false;
+        if (this.position.x < 0) {
+            this.position.x = 0;
+            this.velocity.x = -this.velocity.x * this.physics.bounceDamping;
+            hitWall = true;
+        } else if (this.position.x > maxX) {
+            this.position.x = maxX;
+            this.velocity.x = -this.velocity.x * this.physics.bounceDamping;
+            hitWall = true;
+        }
+
+        // Bounce off floor/ceiling
+        if (this.position.y < 0) {
+            this.position.y = 0;
+            this.velocity.y = 0;
+        } else if (this.position.y >= maxY) {
+            this.position.y = maxY;
+            this.velocity.y = 0;
+            this.standingOn = ledge && maxY === ledge.top - this.size.height ? ledge.element : null;
+            // A hard throw along the ground ends when it hits a wall or comes to rest
+            if (this.airborne || (this.thrownHard && (hitWall || this.velocity.x === 0))) {
+                this.airborne = false;
+                this.events.emit('landed', { x: this.position.x, y: this.position.y });
+                this.reactToLanding();
+            }
+        } else {
+            if (!this.airborne) {
+                this.airborne = true;
+                this.startFalling();
+            }
+            this.standingOn = null;
+        }
+    }
+
+    private walk(delta: number): void {
+        const movement = this.physics.movingSpeed * delta;
+        if (this.action.direction === "left") {
+            this.position.x = Math.max(0, this.position.x - movement);
+            // Turn around when reaching left edge
+            if (this.position.x <= 0) {
+                this.position.x = 0;
+                this.action.direction = "right";
+            }
+        } else {
+            this.position.x = this.position.x + movement;
+            // Turn around when reaching right edge
+            const maxX = this.options.getBounds().width - this.size.width;
+            if (this.position.x >= maxX) {
+                this.position.x = maxX;
+                this.action.direction = "left";
+            }
+        }
+
+        // At the ends of a ledge either turn around, or walk off and fall
+        const ledge = this.getStandingLedge();
+        if (ledge && this.platformEdges === "turn") {
+            const centerX = this.position.x + this.size.width / 2;
+            if (centerX < ledge.left) {
+                this.position.x = ledge.left - this.size.width / 2;
+                this.action.direction = "right";
+            } else if (centerX > ledge.right) {
+                this.position.x = ledge.right - this.size.width / 2;
+                this.action.direction = "left";
+            }
+        }
+    }
+
+    /**
+     * Called when a playing animation reaches its end, moves on to the next state unless the
+     * current one has to last longer.
+     */
+    public onAnimationComplete(loop: boolean): void {
+        // Keep looping until the minimum dwell time is reached
+        const dwell = this.behavior.dwellTimes?.[this.action.animation];
+        if (dwell && loop && this.action.timestamp < dwell.min) {
+            return;
+        }
+        if (this.isHoldingAirbornePose()) {
+            return;
+        }
+        this.transitionToNextAction();
+    }
+
+    public getBehavior(): BehaviorProfile {
+        return this.behavior;
+    }
+
+    /**
+     * Switch to another behavior profile, e.g. when the model changes. Falls back to `Relax`
+     * if the current state doesn't exist in the new profile.
+     */
+    public setBehavior(behavior: BehaviorProfile): void {
+        this.behavior = behavior;
+        if (behavior.animations.indexOf(this.action.animation) === -1) {
+            // If switching from character to vehicle, make sure it's not in `Sleep` or `Sit`
+            this.action.animation = "Relax";
+            this.action.timestamp = 0;
+        }
+    }
+
+    public getAction(): Action {
+        return this.action;
+    }
+
+    public setAction(action: Action, loop: boolean = true): void {
+        const from = this.action.animation;
+        this.action = action;
+        this.events.emit('actionChange', { action, from, loop });
+    }
+
+    /**
+     * Put back a previous state without announcing it, e.g. after a reload.
+     */
+    public restore(position: { x: number; y: number }, action: Action): void {
+        this.position = { ...position };
+        this.action = action;
+    }
+
+    public getPosition(): { x: number; y: number } {
+        return this.position;
+    }
+
+    public setPosition(x: number, y: number): void {
+        this.position.x = x;
+        this.position.y = y;
+    }
+
+    public getVelocity(): { x: number; y: number } {
+        return this.velocity;
+    }
+
+    public setVelocity(x: number, y: number): void {
+        this.velocity.x = x;
+        this.velocity.y = y;
+    }
+
+    // Size of the pet's box
+    public getSize(): { width: number; height: number } {
+        return this.size;
+    }
+
+    public setSize(width: number, height: number): void {
+        this.size.width = width;
+        this.size.height = height;
+    }
+
+    /**
+     * Pick a random horizontal position if the pet hasn't been placed yet, and keep it
+     * above the floor.
+     */
+    public place(): void {
+        const bounds = this.options.getBounds();
+        if (this.position.x === -1) {
+            this.position.x = this.random() * (bounds.width - this.size.width);
+        }
+        this.position.y = Math.min(this.position.y, bounds.height - this.size.height);
+    }
+
+    /**
+     * Move the pet back inside the bounds, e.g. after they shrank.
+     */
+    public keepInBounds(): void {
+        const bounds = this.options.getBounds();
+        this.position.x = Math.min(this.position.x, bounds.width - this.size.width);
+        this.position.y = Math.min(this.position.y, bounds.height - this.size.height);
+    }
+
+    public getPhysics(): Required<PhysicsOptions> {
+        return this.physics;
+    }
+
+    /**
+     * Options not given are reset to their defaults. Throws an error if an option is out of range.
+     */
+    public setPhysics(physics: PhysicsOptions): void {
+        this.physics = resolvePhysicsOptions(physics);
+    }
+
+    public isAirborne(): boolean {
+        return this.airborne;
+    }
+
+    public isDragging(): boolean {
+        return this.dragging;
+    }
+
+    public startDrag(): void {
+        this.dragging = true;
+        this.thrownHard = false;
+        this.setAction({
+            animation: "Relax",
+            direction: this.action.direction,
+            timestamp: 0
+        });
+    }
+
+    /**
+     * Move the dragged pet to a position it took `dt` seconds to reach, which gives its velocity.
+     */
+    public dragTo(x: number, y: number, dt: number): void {
+        if (dt > 0) {
+            this.velocity.x = (x - this.position.x) / dt;
+            this.velocity.y = (y - this.position.y) / dt;
+        }
+        this.position.x = x;
+        this.position.y = y;
+    }
+
+    public endDrag(): void {
+        this.dragging = false;
+        if (this.isReducedMotion()) {
+            // Drop the pet instead of throwing it
+            this.velocity.x = 0;
+            this.velocity.y = 0;
+        }
+        // The release speed counts before the speed limit, which may be lower than `hardThrowSpeed`
+        this.thrownHard = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.y * this.velocity.y) >= this.physics.hardThrowSpeed;
+        this.clampVelocity();
+    }
+
+    private clampVelocity(): void {
+        const { maxVelocity } = this.physics;
+        this.velocity.x = Math.max(-maxVelocity, Math.min(maxVelocity, this.velocity.x));
+        this.velocity.y = Math.max(-maxVelocity, Math.min(maxVelocity, this.velocity.y));
+    }
+
+    private isReducedMotion(): boolean {
+        return this.options.isReducedMotion?.() ?? false;
+    }
+
+    private isMovingAnimation(animation: string): boolean {
+        return (this.behavior.movingAnimations ?? []).indexOf(animation) !== -1;
+    }
+
+    private hasAnimation(animation: string): boolean {
+        return this.behavior.animations.indexOf(animation) !== -1;
+    }
+
+    private startFalling(): void {
+        const pose = this.behavior.falling?.airborne;
+        if (pose && !this.dragging) {
+            this.setAction({ animation: pose, direction: this.action.direction, timestamp: 0 });
+        }
+    }
+
+    private reactToLanding(): void {
+        const falling = this.behavior.falling ?? {};
+        const reaction = this.thrownHard ? falling.hardThrow ?? falling.landing : falling.landing;
+        this.thrownHard = false;
+        if (reaction) {
+            this.setAction({ animation: reaction, direction: this.action.direction, timestamp: 0 }, false);
+        } else if (falling.airborne && this.action.animation === falling.airborne) {
+            // Let go of the pose
+            this.setAction({ animation: "Relax", direction: this.action.direction, timestamp: 0 });
+        }
+    }
+
+    // The airborne pose is kept until landing, regardless of dwell times
+    private isHoldingAirbornePose(): boolean {
+        return this.airborne && !this.dragging && this.action.animation === this.behavior.falling?.airborne;
+    }
+
+    private findLedge(feetY: number): Ledge | null {
+        if (!this.options.getLedges) {
+            return null;
+        }
+        const centerX = this.position.x + this.size.width / 2;
+        return findLedge(this.options.getLedges(), centerX, feetY, this.standingOn);
+    }
+
+    private getStandingLedge(): Ledge | null {
+        if (!this.options.getLedges || !this.standingOn) {
+            return null;
+        }
+        return this.options.getLedges().find(ledge => ledge.element === this.standingOn) ?? null;
+    }
+
+    private getBodyCenter(): { x: number; y: number } {
+        return {
+            x: this.position.x + this.size.width / 2,
+            y: this.position.y + this.size.height * BODY_CENTER_RATIO,
+        };
+    }
+
+    private getBodyRadius(): number {
+        return this.size.width * BODY_WIDTH_RATIO / 2;
+    }
+
+    private interactWithNeighbors(neighbors: PetSimulation[], delta: number): void {
+        this.socialCooldown = Math.max(0, this.socialCooldown - delta);
+        const selfIndex = neighbors.indexOf(this);
+
+        neighbors.forEach((other, index) => {
+            if (other === this || this.dragging || other.dragging) {
+                return;
+            }
+
+            const center = this.getBodyCenter();
+            const otherCenter = other.getBodyCenter();
+            const dx = otherCenter.x - center.x;
+            const dy = otherCenter.y - center.y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            const minDistance = this.getBodyRadius() + other.getBodyRadius();
+
+            // Thrown pets bounce off each other. Each pair is resolved once, by the pet listed first
+            if ((this.airborne || other.airborne) && index > selfIndex && distance < minDistance && distance > 0) {
+                this.bounceOff(other, dx / distance, dy / distance, minDistance - distance);
+                return;
+            }
+
+            // Walking pets stop or turn around when they run into another one
+            if (this.isMovingAnimation(this.action.animation) && !this.airborne
+                && Math.abs(dx) < minDistance && Math.abs(dy) < minDistance) {
+                const headingTowards = (this.action.direction === "right") === (dx > 0);
+                if (headingTowards) {
+                    if (this.random() < WALK_STOP_PROBABILITY && this.hasAnimation("Relax")) {
+                        this.setAction({ animation: "Relax", direction: this.action.direction, timestamp: 0 });
+                    } else {
+                        this.action.direction = this.turnDirection(this.action.direction);
+                    }
+                }
+                return;
+            }
+
+            // Close idle pets sometimes face each other and play together
+            if (index > selfIndex && this.isIdleForSocial() && other.isIdleForSocial()
+                && Math.abs(dx) < this.size.width * SOCIAL_DISTANCE_RATIO
+                && this.random() < SOCIAL_RATE * delta) {
+                this.playSocialAnimation(dx > 0 ? "right" : "left");
+                other.playSocialAnimation(dx > 0 ? "left" : "right");
+            }
+        });
+    }
+
+    private bounceOff(other: PetSimulation, nx: number, ny: number, overlap: number): void {
+        // Push the pets apart
+        this.position.x -= nx * overlap / 2;
+        this.position.y -= ny * overlap / 2;
+        other.position.x += nx * overlap / 2;
+        other.position.y += ny * overlap / 2;
+
+        // Exchange momentum along the collision normal, assuming equal masses
+        const approachSpeed = (this.velocity.x - other.velocity.x) * nx + (this.velocity.y - other.velocity.y) * ny;
+        if (approachSpeed > 0) {
+            const impulse = approachSpeed * (1 + this.physics.bounceDamping) / 2;
+            this.velocity.x -= impulse * nx;
+            this.velocity.y -= impulse * ny;
+            other.velocity.x += impulse * nx;
+            other.velocity.y += impulse * ny;
+        }
+    }
+
+    private isIdleForSocial(): boolean {
+        return this.action.animation === "Relax" && !this.airborne && this.socialCooldown === 0;
+    }
+
+    private playSocialAnimation(direction: Direction): void {
+        const candidates = ["Interact", "Special"].filter(name => this.hasAnimation(name));
+        if (candidates.length === 0) {
+            return;
+        }
+        this.socialCooldown = SOCIAL_COOLDOWN;
+        this.setAction({
+            animation: candidates[Math.floor(this.random() * candidates.length)],
+            direction,
+            timestamp: 0,
+        });
+    }
+
+    private transitionToNextAction(): void {
+        this.setAction(this.nextAction(this.action));
+    }
+
+    private randomPick(probabilities: number[]): number {
+        // Probabilities may not sum to 1 when some states are ruled out
+        let random = this.random() * probabilities.reduce((sum, p) => sum + p, 0);
+        let cumulativeProb = 0;
+        for (let i = 0; i < probabilities.length; i++) {
+            cumulativeProb += probabilities[i];
+            if (random < cumulativeProb) {
+                return i;
+            }
+        }
+        throw new Error("Invalid probabilities: " + probabilities);
+    }
+
+    private turnDirection(current: Direction): Direction {
+        return current === "left" ? "right" : "left";
+    }
+
+    private nextAction(current: Action): Action {
+        const animations = this.behavior.animations;
+        // An animation outside the profile, e.g. played from the menu, moves on like the first state
+        const currentIndex = animations.indexOf(current.animation);
+        let nextIndexProb = this.behavior.transitions[currentIndex === -1 ? 0 : currentIndex];
+        if (this.isReducedMotion()) {
+            // No wandering around, stay in place if walking was the only way out
+            nextIndexProb = nextIndexProb.map((p, i) => this.isMovingAnimation(animations[i]) ? 0 : p);
+            if (nextIndexProb.every(p => p === 0)) {
+                return { ...current, animation: "Relax", timestamp: 0 };
+            }
+        }
+        const nextAnim = animations[this.randomPick(nextIndexProb)];
+
+        let nextDirection = current.direction;
+        if (current.animation === "Relax" && this.isMovingAnimation(nextAnim)) {
+            nextDirection = this.random() < TURN_PROBABILITY ? this.turnDirection(current.direction) : current.direction;
+        }
+        return {
+            animation: nextAnim,
+            direction: nextDirection,
+            timestamp: 0
+        };
+    }
+}
@@ -0,0 +1,64 @@
+// How far down the canvas the bubble points to, the character doesn't fill the top of its canvas
+const ANCHOR_RATIO = 0.3;
+const EDGE_MARGIN = 4; // pixels kept between the bubble and the window edges
+
+/**
+ * Speech bubble following a pet's canvas, kept within the window.
+ */
+export class SpeechBubble {
+    private element: HTMLElement;
+    private hideTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'arkpets-speech-bubble';
+    }
+
+    public isVisible(): boolean {
+        return this.element.isConnected;
+    }
+
+    public show(text: string, duration: number, anchor: HTMLElement): void {
+        // Never render as HTML, lines may come from remote catalogs
+        this.element.textContent = text;
+        if (!this.isVisible()) {
+            document.body.appendChild(this.element);
+        }
+        this.update(anchor);
+
+        if (this.hideTimeout !== null) {
+            clearTimeout(this.hideTimeout);
+        }
+        this.hideTimeout = setTimeout(() => this.hide(), duration);
+    }
+
+    /**
+     * Move the bubble above the anchor, flipping below it or sliding sideways near window edges.
+     */
+    public update(anchor: HTMLElement): void {
+        if (!this.isVisible()) {
+            return;
+        }
+        const { innerWidth, innerHeight } = window;
+        const { offsetWidth, offsetHeight } = this.element;
+        const rect = anchor.getBoundingClientRect();
+        const anchorY = rect.top + rect.height * ANCHOR_RATIO;
+
+        const left = Math.max(EDGE_MARGIN, Math.min(rect.left + rect.width / 2 - offsetWidth / 2, innerWidth - offsetWidth - EDGE_MARGIN));
+        let top = anchorY - offsetHeight;
+        if (top < EDGE_MARGIN) {
+            top = Math.min(rect.bottom, innerHeight - offsetHeight - EDGE_MARGIN);
+        }
+
+        this.element.style.left = `${left}px`;
+        this.element.style.top = `${top}px`;
+    }
+
+    public hide(): void {
+        if (this.hideTimeout !== null) {
+            clearTimeout(this.hideTimeout);
+            this.hideTimeout = null;
+        }
+        this.element.remove();
+    }
+}
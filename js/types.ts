@@ -1,8 +1,361 @@
+import type { Character } from './character';
+import type { RenderContext } from './render-context';
+import type { AssetCache } from './asset-cache';
+import type { LoadError } from './errors';
+import type { Ledge } from './platforms';
+import type { PetSimulation } from './simulation';
+
 export interface CharacterModel {
     id: string;
-    name: string;
+    // Plain or per locale, see `localize`
+    name: LocalizedString;
     skeleton: string;
+    // Detected from the extension of `skeleton` (.json or .skel) if omitted, else from its content
+    skeletonFormat?: SkeletonFormat;
     atlas: string;
-    texture: string;
+    // Atlas page images, several for multi-page atlases. Paths must match the page names in the
+    // atlas, relative to its directory
+    texture: string | string[];
     resourcePath?: string;
-}
\ No newline at end of file
+    // Content version of the files, bump it to invalidate cached copies
+    version?: string;
+    // Optional behavior profile; a built-in default is picked from the skeleton if omitted
+    behavior?: BehaviorProfile;
+    // Animations to play for states named differently in the skeleton, e.g. `{ Relax: "Idle_2" }`.
+    // The standard states are otherwise matched by name, see `resolveAnimationAliases`
+    animationAliases?: AnimationAliases;
+    // Heading the model is listed under in the Characters menu
+    group?: string;
+    // Operator this model is an outfit of; the models of an operator are listed under it as its skins
+    operator?: Operator;
+    // Name of the outfit, e.g. the default one or a skin, shown under the operator
+    skin?: LocalizedString;
+    // Keywords matched by the Characters menu search
+    tags?: string[];
+    // Lines the pet may say, picked at random when the trigger happens
+    dialogue?: DialoguePools;
+}
+
+export interface Operator {
+    id: string;
+    name: LocalizedString;
+}
+
+export type SkeletonFormat = "binary" | "json";
+
+// Animation of the skeleton by state of the pet
+export type AnimationAliases = { [state: string]: string };
+
+// A text, either plain or per locale (e.g. `{ "zh-CN": "佩佩", "en": "Pepe" }`)
+export type LocalizedString = string | { [locale: string]: string };
+
+// Texts of the user interface in one locale
+export interface Messages {
+    characters: string;
+    actions: string;
+    size: string;
+    // Size presets
+    small: string;
+    medium: string;
+    large: string;
+    hide: string;
+    about: string;
+    search: string;
+    // Display names by animation name
+    animations: { [animation: string]: string };
+}
+
+// click: clicked; wake: leaves `Sleep`; drop: released after a drag; appear: first shown on the page
+export type DialogueTrigger = "click" | "wake" | "drop" | "appear";
+
+export type DialoguePools = { [trigger in DialogueTrigger]?: string[] };
+
+export interface SayOptions {
+    // Milliseconds to show the bubble, by default depending on the text length
+    duration?: number;
+}
+
+export interface DwellTime {
+    min: number; // seconds
+    max: number; // seconds
+}
+
+export interface BehaviorProfile {
+    // Animation states the pet can be in, including "Relax" and "Interact"
+    animations: string[];
+    // Markov transition matrix, `transitions[i][j]` is the probability to go from animations[i] to animations[j]
+    transitions: number[][];
+    // Minimum and maximum time to stay in a state before transitioning
+    dwellTimes?: { [animation: string]: DwellTime };
+    // States in which the pet walks along its direction
+    movingAnimations?: string[];
+    // Reactions to falling and being thrown
+    falling?: FallingBehavior;
+}
+
+export interface FallingBehavior {
+    // Pose held while in the air, the current animation keeps playing if omitted
+    airborne?: string;
+    // Played once when touching the ground after a fall
+    landing?: string;
+    // Played once instead of `landing` after being thrown faster than `hardThrowSpeed`
+    hardThrow?: string;
+}
+
+export type Direction = "left" | "right";
+
+export interface Action {
+    animation: string;
+    direction: Direction;
+    timestamp: number;
+}
+
+export interface CharacterEventMap {
+    loaded: CharacterModel;
+    // Bytes downloaded so far; `total` is null while unknown
+    loadProgress: { model: CharacterModel; loaded: number; total: number | null };
+    loadError: { model: CharacterModel; error: LoadError };
+    actionChange: Action;
+    // Clicked, tapped on a touch screen, or activated with Enter while focused
+    click: MouseEvent | TouchEvent | KeyboardEvent;
+    dragStart: MouseEvent | TouchEvent;
+    dragEnd: MouseEvent | TouchEvent;
+    // Physics brought the pet to rest on the floor after falling or being thrown
+    landed: { x: number; y: number };
+    hidden: void;
+    destroyed: void;
+}
+
+export interface CharacterOptions {
+    // Shared WebGL context to draw with, set by `PetManager`
+    renderContext?: RenderContext;
+    // Other pets to collide and interact with, set by `PetManager`
+    neighbors?: () => Character[];
+    // Let the pet stand and walk on page elements
+    platforms?: PlatformOptions;
+    // "viewport" (default) keeps the pet over the window, "document" lets it scroll with the page
+    coordinateSpace?: CoordinateSpaceMode;
+    // In document space, element to live in instead of the whole document
+    container?: HTMLElement;
+    // Where downloaded model files are kept, defaults to a shared persistent cache
+    assetCache?: AssetCache;
+    // Model to show instead if the initial one fails to load
+    fallbackModel?: CharacterModel;
+    // Where the pet's state is kept across page loads, defaults to session storage
+    persistence?: PersistenceOptions;
+    // Look of the pet: hover outline and glow, color grading and custom shaders
+    effects?: EffectOptions;
+    // How to tell whether the mouse is over the pet, defaults to "pixel"
+    hitTest?: HitTestMode;
+    // Frame rate limits and reduced motion
+    scheduler?: SchedulerOptions;
+    // Gravity, drag and speeds, see `DEFAULT_PHYSICS`
+    physics?: PhysicsOptions;
+    // Time and random numbers used by the simulation, e.g. to replay it
+    clock?: Clock;
+    random?: RandomSource;
+}
+
+export interface Clock {
+    // Current time in seconds
+    now(): number;
+}
+
+// Returns numbers in [0, 1) like `Math.random`
+export type RandomSource = () => number;
+
+export interface SimulationOptions {
+    // Size of the area the pet moves in
+    getBounds: () => { width: number; height: number };
+    // Ledges to stand on, in platform mode
+    getLedges?: () => Ledge[];
+    // Other pets to collide and interact with, including this one
+    getNeighbors?: () => PetSimulation[];
+    // No wandering around or throwing while this returns true
+    isReducedMotion?: () => boolean;
+    platformEdges?: PlatformEdgeBehavior;
+    physics?: PhysicsOptions;
+    // Defaults to the system time
+    clock?: Clock;
+    // Defaults to `Math.random`
+    random?: RandomSource;
+}
+
+export interface SimulationEventMap {
+    // `from` is the animation played before, `loop` whether the new one repeats
+    actionChange: { action: Action; from: string; loop: boolean };
+    landed: { x: number; y: number };
+}
+
+export interface PhysicsOptions {
+    // Downwards acceleration in pixels per second squared
+    gravity?: number;
+    // Fraction of the velocity kept after one second in the air, 1 for no air resistance
+    drag?: number;
+    // Fraction of the horizontal velocity kept after one second sliding on the ground, on top of
+    // `drag`; 1 for no extra friction
+    friction?: number;
+    // Speed limit in pixels per second
+    maxVelocity?: number;
+    // Speeds below this (pixels per second) are rounded down to 0
+    minVelocity?: number;
+    // Fraction of the speed kept when bouncing off walls and other pets
+    bounceDamping?: number;
+    // Walking speed in pixels per second
+    movingSpeed?: number;
+    // Release speed in pixels per second above which a throw plays the `hardThrow` reaction, measured
+    // before `maxVelocity` applies
+    hardThrowSpeed?: number;
+}
+
+export interface SchedulerOptions {
+    // Frame rate cap, defaults to the display's refresh rate
+    maxFps?: number;
+    // Frame rate while sitting or sleeping and not hovered, defaults to 10
+    idleFps?: number;
+    // Frame rate cap on a low battery, defaults to 30
+    lowBatteryFps?: number;
+    // With `prefers-reduced-motion`, don't wander around or get thrown. Defaults to true
+    respectReducedMotion?: boolean;
+}
+
+// pixel: exact, reads the drawn character back from the GPU; geometry: cheaper, tests the skeleton's shapes
+export type HitTestMode = "pixel" | "geometry";
+
+// Color components between 0 and 1
+export type RGB = [number, number, number];
+export type RGBA = [number, number, number, number];
+
+export type UniformValue = number | number[];
+
+export interface EffectOptions {
+    // Outline shown around interactive pets under the mouse; width in CSS pixels, 0 to disable
+    outlineColor?: RGBA;
+    outlineWidth?: number;
+    // Soft halo shown around interactive pets under the mouse; width in CSS pixels, 0 (default) to disable
+    glowColor?: RGBA;
+    glowWidth?: number;
+    // Opacity of non-interactive pets under the mouse, so that the page below can be seen
+    hoverAlpha?: number;
+    // Color grading of the character, multiplied with its colors
+    tint?: RGB;
+    brightness?: number;
+    contrast?: number;
+    saturation?: number;
+    // Fade to grayscale while the pet sleeps
+    grayscaleWhenSleeping?: boolean;
+    // Registered effects applied in order, before the built-in ones
+    custom?: CustomEffect[];
+}
+
+export interface CustomEffect {
+    // Name given to `registerEffect`
+    name: string;
+    // Overrides the effect's default uniform values
+    uniforms?: { [name: string]: UniformValue };
+}
+
+export interface EffectDefinition {
+    // GLSL ES 1.0 fragment shader source
+    fragmentShader: string;
+    // Default uniform values
+    uniforms?: { [name: string]: UniformValue };
+}
+
+/**
+ * Key-value store for persisted pet state. Implement it to keep state somewhere else.
+ */
+export interface StorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export type StorageKind = "session" | "local" | "memory";
+
+export interface PersistenceOptions {
+    // Built-in storage or a custom adapter, defaults to "session"
+    storage?: StorageKind | StorageAdapter;
+    // Storage key, defaults to `arkpets-character-<canvas id>`
+    key?: string;
+    // Models currently offered, or a function returning them when the list can change; a saved
+    // model missing from the list is ignored, found ones are refreshed
+    models?: CharacterModel[] | (() => CharacterModel[]);
+    // Follow character changes made to the pet with the same key in other tabs
+    sync?: boolean;
+}
+
+export type CoordinateSpaceMode = "viewport" | "document";
+
+// What a pet walking on a page element does at its ends
+export type PlatformEdgeBehavior = "turn" | "fall";
+
+export interface PlatformOptions {
+    // Elements acting as ledges, e.g. `h1, .card, [data-arkpets-platform]`
+    selector: string;
+    edges?: PlatformEdgeBehavior;
+}
+
+export interface PetManagerOptions {
+    // Let pets collide with each other and play together
+    interactions?: boolean;
+}
+
+export interface AssetCacheOptions {
+    // Name of the Cache Storage bucket
+    name?: string;
+    // Models are evicted, least recently used first, above this size
+    maxBytes?: number;
+    // Attempts after the first failed download
+    retries?: number;
+    // Delay before the first retry in milliseconds, doubled on every attempt
+    retryDelay?: number;
+}
+
+// An entry of the context menu, see `getDefaultMenuItems`
+export type MenuItem = MenuEntry | MenuSeparator | MenuHeader | MenuSlider;
+
+export interface MenuEntry {
+    // normal (default): a plain command; checkbox and radio show their `checked` state
+    type?: "normal" | "checkbox" | "radio";
+    // Identifies the item among its siblings, e.g. to find a default item to move or remove
+    id?: string;
+    label: string;
+    // URL of an image shown before the label
+    icon?: string;
+    checked?: boolean;
+    disabled?: boolean;
+    // Items shown next to this one on hover
+    submenu?: MenuItem[];
+    // Offer a search box when the submenu is long
+    searchable?: boolean;
+    // Words matched by the search box besides the label
+    keywords?: string[];
+    // Called after the menu is closed
+    onClick?: (c: Character) => void;
+}
+
+export interface MenuSeparator {
+    type: "separator";
+    id?: string;
+}
+
+// Heading of the items following it, hidden by the search box when none of them match
+export interface MenuHeader {
+    type: "header";
+    id?: string;
+    label: string;
+}
+
+export interface MenuSlider {
+    type: "slider";
+    id?: string;
+    // Not shown, names the slider for assistive technologies; the submenu usually says what it sets
+    label: string;
+    min: number;
+    max: number;
+    step?: number;
+    value: number;
+    // Called while the slider moves, the menu stays open
+    onChange: (c: Character, value: number) => void;
+}
@@ -0,0 +1,28 @@
+import { AnimationAliases, DialoguePools, LocalizedString } from './types';
+
+// Checks of untrusted JSON, shared by the catalog and the persisted state
+
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+export function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function isLocalizedString(value: unknown): value is LocalizedString {
+    return isNonEmptyString(value)
+        || (isObject(value) && Object.keys(value).length > 0 && Object.values(value).every(isNonEmptyString));
+}
+
+export function isDialoguePools(value: unknown): value is DialoguePools {
+    return isObject(value) && Object.values(value).every(isStringArray);
+}
+
+export function isAnimationAliases(value: unknown): value is AnimationAliases {
+    return isObject(value) && Object.values(value).every(isNonEmptyString);
+}
@@ -6,6 +6,13 @@ uniform vec4 u_outlineColor;    // Required: Outline color
 uniform float u_outlineWidth;   // Required: Outline width
 uniform ivec2 u_textureSize;    // Required: Texture size
 uniform float u_alpha;          // Required: Global alpha applied in the end
+uniform vec4 u_glowColor;       // Required: Glow color
+uniform float u_glowWidth;      // Required: Glow width, 0 to disable
+uniform vec3 u_tint;            // Required: Multiplied with the character color
+uniform float u_brightness;     // Required: Color grading, 1 for none
+uniform float u_contrast;       // Required: Color grading, 1 for none
+uniform float u_saturation;     // Required: Color grading, 1 for none
+uniform float u_grayscale;      // Required: Amount of grayscale, 0 for none
 
 varying vec2 v_texCoord;
 
@@ -14,49 +21,63 @@ const float c_alphaLv1 = 0.45;
 const float c_alphaLv2 = 0.9;
 const float c_seamCoef = 0.55;
 const float c_outlineOverstate = 10.0;
+const float c_glowOverstate = 2.0;
+const vec3 c_luma = vec3(0.299, 0.587, 0.114);
+
+float getBlurredAlpha(float width) {
+    vec2 relWidth = vec2(1.0) / vec2(u_textureSize) * width;
+    
+    float kernel[25];
+    kernel[0] = 0.0035434; kernel[1] = 0.0158805; kernel[2] = 0.0261825; kernel[3] = 0.0158805; kernel[4] = 0.0035434;
+    kernel[5] = 0.0158805; kernel[6] = 0.0711714; kernel[7] = 0.1173418; kernel[8] = 0.0711714; kernel[9] = 0.0158805;
+    kernel[10] = 0.0261825; kernel[11] = 0.1173418; kernel[12] = 0.0; kernel[13] = 0.1173418; kernel[14] = 0.0261825;
+    kernel[15] = 0.0158805; kernel[16] = 0.0711714; kernel[17] = 0.1173418; kernel[18] = 0.0711714; kernel[19] = 0.0158805;
+    kernel[20] = 0.0035434; kernel[21] = 0.0158805; kernel[22] = 0.0261825; kernel[23] = 0.0158805; kernel[24] = 0.0035434;
+    
+    vec4 sum = vec4(0.0);
+    sum += texture2D(u_texture, v_texCoord + vec2(-2, -2) * relWidth) * kernel[0];
+    sum += texture2D(u_texture, v_texCoord + vec2(-1, -2) * relWidth) * kernel[1];
+    sum += texture2D(u_texture, v_texCoord + vec2(0, -2) * relWidth) * kernel[2];
+    sum += texture2D(u_texture, v_texCoord + vec2(1, -2) * relWidth) * kernel[3];
+    sum += texture2D(u_texture, v_texCoord + vec2(2, -2) * relWidth) * kernel[4];
+    sum += texture2D(u_texture, v_texCoord + vec2(-2, -1) * relWidth) * kernel[5];
+    sum += texture2D(u_texture, v_texCoord + vec2(-1, -1) * relWidth) * kernel[6];
+    sum += texture2D(u_texture, v_texCoord + vec2(0, -1) * relWidth) * kernel[7];
+    sum += texture2D(u_texture, v_texCoord + vec2(1, -1) * relWidth) * kernel[8];
+    sum += texture2D(u_texture, v_texCoord + vec2(2, -1) * relWidth) * kernel[9];
+    sum += texture2D(u_texture, v_texCoord + vec2(-2, 0) * relWidth) * kernel[10];
+    sum += texture2D(u_texture, v_texCoord + vec2(-1, 0) * relWidth) * kernel[11];
+    sum += texture2D(u_texture, v_texCoord + vec2(1, 0) * relWidth) * kernel[13];
+    sum += texture2D(u_texture, v_texCoord + vec2(2, 0) * relWidth) * kernel[14];
+    sum += texture2D(u_texture, v_texCoord + vec2(-2, 1) * relWidth) * kernel[15];
+    sum += texture2D(u_texture, v_texCoord + vec2(-1, 1) * relWidth) * kernel[16];
+    sum += texture2D(u_texture, v_texCoord + vec2(0, 1) * relWidth) * kernel[17];
+    sum += texture2D(u_texture, v_texCoord + vec2(1, 1) * relWidth) * kernel[18];
+    sum += texture2D(u_texture, v_texCoord + vec2(2, 1) * relWidth) * kernel[19];
+    sum += texture2D(u_texture, v_texCoord + vec2(-2, 2) * relWidth) * kernel[20];
+    sum += texture2D(u_texture, v_texCoord + vec2(-1, 2) * relWidth) * kernel[21];
+    sum += texture2D(u_texture, v_texCoord + vec2(0, 2) * relWidth) * kernel[22];
+    sum += texture2D(u_texture, v_texCoord + vec2(1, 2) * relWidth) * kernel[23];
+    sum += texture2D(u_texture, v_texCoord + vec2(2, 2) * relWidth) * kernel[24];
+
+    return sum.a;
+}
 
 vec4 getOutlined() {
     vec4 texColor = texture2D(u_texture, v_texCoord);
     if (u_outlineWidth > 0.0) {
-        vec2 relOutlineWidth = vec2(1.0) / vec2(u_textureSize) * u_outlineWidth;
-        
-        float kernel[25];
-        kernel[0] = 0.0035434; kernel[1] = 0.0158805; kernel[2] = 0.0261825; kernel[3] = 0.0158805; kernel[4] = 0.0035434;
-        kernel[5] = 0.0158805; kernel[6] = 0.0711714; kernel[7] = 0.1173418; kernel[8] = 0.0711714; kernel[9] = 0.0158805;
-        kernel[10] = 0.0261825; kernel[11] = 0.1173418; kernel[12] = 0.0; kernel[13] = 0.1173418; kernel[14] = 0.0261825;
-        kernel[15] = 0.0158805; kernel[16] = 0.0711714; kernel[17] = 0.1173418; kernel[18] = 0.0711714; kernel[19] = 0.0158805;
-        kernel[20] = 0.0035434; kernel[21] = 0.0158805; kernel[22] = 0.0261825; kernel[23] = 0.0158805; kernel[24] = 0.0035434;
-        
-        vec4 sum = vec4(0.0);
-        sum += texture2D(u_texture, v_texCoord + vec2(-2, -2) * relOutlineWidth) * kernel[0];
-        sum += texture2D(u_texture, v_texCoord + vec2(-1, -2) * relOutlineWidth) * kernel[1];
-        sum += texture2D(u_texture, v_texCoord + vec2(0, -2) * relOutlineWidth) * kernel[2];
-        sum += texture2D(u_texture, v_texCoord + vec2(1, -2) * relOutlineWidth) * kernel[3];
-        sum += texture2D(u_texture, v_texCoord + vec2(2, -2) * relOutlineWidth) * kernel[4];
-        sum += texture2D(u_texture, v_texCoord + vec2(-2, -1) * relOutlineWidth) * kernel[5];
-        sum += texture2D(u_texture, v_texCoord + vec2(-1, -1) * relOutlineWidth) * kernel[6];
-        sum += texture2D(u_texture, v_texCoord + vec2(0, -1) * relOutlineWidth) * kernel[7];
-        sum += texture2D(u_texture, v_texCoord + vec2(1, -1) * relOutlineWidth) * kernel[8];
-        sum += texture2D(u_texture, v_texCoord + vec2(2, -1) * relOutlineWidth) * kernel[9];
-        sum += texture2D(u_texture, v_texCoord + vec2(-2, 0) * relOutlineWidth) * kernel[10];
-        sum += texture2D(u_texture, v_texCoord + vec2(-1, 0) * relOutlineWidth) * kernel[11];
-        sum += texture2D(u_texture, v_texCoord + vec2(1, 0) * relOutlineWidth) * kernel[13];
-        sum += texture2D(u_texture, v_texCoord + vec2(2, 0) * relOutlineWidth) * kernel[14];
-        sum += texture2D(u_texture, v_texCoord + vec2(-2, 1) * relOutlineWidth) * kernel[15];
-        sum += texture2D(u_texture, v_texCoord + vec2(-1, 1) * relOutlineWidth) * kernel[16];
-        sum += texture2D(u_texture, v_texCoord + vec2(0, 1) * relOutlineWidth) * kernel[17];
-        sum += texture2D(u_texture, v_texCoord + vec2(1, 1) * relOutlineWidth) * kernel[18];
-        sum += texture2D(u_texture, v_texCoord + vec2(2, 1) * relOutlineWidth) * kernel[19];
-        sum += texture2D(u_texture, v_texCoord + vec2(-2, 2) * relOutlineWidth) * kernel[20];
-        sum += texture2D(u_texture, v_texCoord + vec2(-1, 2) * relOutlineWidth) * kernel[21];
-        sum += texture2D(u_texture, v_texCoord + vec2(0, 2) * relOutlineWidth) * kernel[22];
-        sum += texture2D(u_texture, v_texCoord + vec2(1, 2) * relOutlineWidth) * kernel[23];
-        sum += texture2D(u_texture, v_texCoord + vec2(2, 2) * relOutlineWidth) * kernel[24];
-        
-        sum *= c_outlineOverstate;
-        if (sum.a > c_alphaLv0) {
+        float alpha = getBlurredAlpha(u_outlineWidth) * c_outlineOverstate;
+        if (alpha > c_alphaLv0) {
             texColor.rgb = u_outlineColor.rgb;
-            texColor.a = min(1.0, sum.a) * u_outlineColor.a;
+            texColor.a = min(1.0, alpha) * u_outlineColor.a;
+            return texColor;
+        }
+    }
+    if (u_glowWidth > 0.0) {
+        // Softer and wider than the outline, fading away from the character
+        float glow = min(1.0, getBlurredAlpha(u_glowWidth) * c_glowOverstate) * u_glowColor.a;
+        if (glow > texColor.a) {
+            texColor = vec4(u_glowColor.rgb, glow);
         }
     }
     return texColor;
@@ -109,8 +130,18 @@ vec4 getSeamed() {
     return texColor;
 }
 
+vec4 getGraded(vec4 texColor) {
+    vec3 rgb = texColor.rgb * u_tint * u_brightness;
+    rgb = (rgb - 0.5) * u_contrast + 0.5;
+    float luma = dot(rgb, c_luma);
+    rgb = mix(vec3(luma), rgb, u_saturation * (1.0 - u_grayscale));
+    return vec4(clamp(rgb, 0.0, 1.0), texColor.a);
+}
+
 void main() {
     vec4 texColor = texture2D(u_texture, v_texCoord);
+    // Outline and glow are not part of the character and are not color graded
+    bool isCharacter = texColor.a >= c_alphaLv0;
 
     if (texColor.a < c_alphaLv0) {
         // Outline effect apply on transparent areas
@@ -124,6 +155,10 @@ void main() {
         // No effect apply on other areas
     }
 
+    if (isCharacter) {
+        texColor = getGraded(texColor);
+    }
+
     // Ultimate composing
     gl_FragColor = texColor;
     gl_FragColor.a *= u_alpha;
@@ -1,6 +1,7 @@
 attribute vec2 a_position;
+uniform vec2 u_texCoordScale;   // Part of the texture covered by the character
 varying vec2 v_texCoord;
 void main() {
     gl_Position = vec4(a_position, 0.0, 1.0);
-    v_texCoord = a_position * 0.5 + 0.5;
-} 
\ No newline at end of file
+    v_texCoord = (a_position * 0.5 + 0.5) * u_texCoordScale;
+}
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BEHAVIOR_PROFILES, validateBehaviorProfile } from '../js/behavior';
+
+describe('validateBehaviorProfile', () => {
+    for (const [name, profile] of Object.entries(DEFAULT_BEHAVIOR_PROFILES)) {
+        it(`accepts the ${name} profile`, () => {
+            validateBehaviorProfile(profile);
+        });
+    }
+
+    it('requires the Relax and Interact states', () => {
+        assert.throws(
+            () => validateBehaviorProfile({ animations: ["Idle", "Walk"], transitions: [[0.5, 0.5], [0.5, 0.5]] }),
+            /missing the Relax state/);
+        assert.throws(
+            () => validateBehaviorProfile({ animations: ["Relax", "Move"], transitions: [[0.5, 0.5], [0.5, 0.5]] }),
+            /missing the Interact state/);
+    });
+
+    it('rejects rows that do not sum to 1', () => {
+        assert.throws(
+            () => validateBehaviorProfile({ animations: ["Relax", "Interact"], transitions: [[0.5, 0.4], [1, 0]] }),
+            /sums to 0.9/);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStorage, PersistedState, STATE_VERSION, StateStore } from '../js/persistence';
+import { CharacterModel } from '../js/types';
+
+const KEY = 'pet';
+
+const model: CharacterModel = {
+    id: "amiya",
+    name: "Amiya",
+    skeleton: "amiya.skel",
+    atlas: "amiya.atlas",
+    texture: "amiya.png",
+};
+
+const state: PersistedState = {
+    version: STATE_VERSION,
+    position: { x: 10, y: 20 },
+    scale: 1.5,
+    coordinateSpace: "viewport",
+    currentAction: { animation: "Relax", direction: "left", timestamp: 0 },
+    model,
+};
+
+// Load `saved` as it would be found in storage, without the warnings about invalid parts
+function load(saved: unknown, models?: CharacterModel[]) {
+    const storage = new MemoryStorage();
+    storage.setItem(KEY, JSON.stringify(saved));
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+        return { restored: new StateStore('canvas', { storage, key: KEY, models }).load(), storage };
+    } finally {
+        console.warn = warn;
+    }
+}
+
+describe('StateStore', () => {
+    it('restores a saved state', () => {
+        assert.deepEqual(load(state).restored, state);
+    });
+
+    it('upgrades a state saved before versioning', () => {
+        const { version, scale, coordinateSpace, model: characterResource, ...rest } = state;
+        assert.deepEqual(load({ ...rest, characterResource }).restored, { ...state, scale: 1 });
+    });
+
+    it('discards an invalid state', () => {
+        for (const saved of [null, [], { ...state, scale: 0 }, { ...state, model: { ...model, name: {} } }]) {
+            const { restored, storage } = load(saved);
+            assert.equal(restored, null);
+            assert.equal(storage.getItem(KEY), null);
+        }
+    });
+
+    it('drops malformed optional fields of the saved model', () => {
+        const saved = {
+            ...state,
+            model: {
+                ...model,
+                version: 2,
+                dialogue: { click: "Hello" },
+                animationAliases: { Relax: 1 },
+                behavior: { animations: ["Idle"], transitions: [[1]] },
+                operator: { id: "amiya" },
+                tags: ["caster"],
+            },
+        };
+        assert.deepEqual(load(saved).restored?.model, { ...model, tags: ["caster"] });
+    });
+
+    it('ignores a saved model that is no longer offered', () => {
+        assert.equal(load(state, [{ ...model, id: "kaltsit" }]).restored?.model, null);
+    });
+
+    it('matches the saved model against the models offered at load time', () => {
+        const storage = new MemoryStorage();
+        let models: CharacterModel[] = [];
+        const store = new StateStore('canvas', { storage, key: KEY, models: () => models });
+        store.save(state);
+        const refreshed = { ...model, version: "2" };
+        models = [refreshed];
+        assert.equal(store.load()?.model, refreshed);
+    });
+});
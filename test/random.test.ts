@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeededRandom } from '../js/random';
+
+describe('createSeededRandom', () => {
+    it('repeats the same numbers for the same seed', () => {
+        const a = createSeededRandom(7);
+        const b = createSeededRandom(7);
+        for (let i = 0; i < 100; i++) {
+            assert.equal(a(), b());
+        }
+    });
+
+    it('gives other numbers for another seed', () => {
+        const a = createSeededRandom(7);
+        const b = createSeededRandom(8);
+        const same = Array.from({ length: 100 }, () => a() === b()).filter(Boolean).length;
+        assert.ok(same < 5);
+    });
+
+    it('stays in [0, 1) and spreads evenly', () => {
+        const random = createSeededRandom(1);
+        const buckets = new Array(10).fill(0);
+        for (let i = 0; i < 10000; i++) {
+            const value = random();
+            assert.ok(value >= 0 && value < 1);
+            buckets[Math.floor(value * 10)]++;
+        }
+        for (const count of buckets) {
+            assert.ok(Math.abs(count - 1000) < 100, `uneven bucket: ${count}`);
+        }
+    });
+});
@@ -0,0 +1,383 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PetSimulation } from '../js/simulation';
+import { DEFAULT_BEHAVIOR_PROFILES } from '../js/behavior';
+import { DEFAULT_PHYSICS, integrateAxis } from '../js/physics';
+import { createSeededRandom } from '../js/random';
+import type { Ledge } from '../js/platforms';
+import { BehaviorProfile, Clock, SimulationOptions } from '../js/types';
+
+// A 1000x600 window with a 100x100 pet, standing on the floor at y = 500
+const BOUNDS = { width: 1000, height: 600 };
+const SIZE = 100;
+const FLOOR_Y = BOUNDS.height - SIZE;
+const FRAME = 1 / 60;
+
+const fixedClock: Clock = { now: () => 0 };
+
+function createPet(options: Partial<SimulationOptions> = {}, seed: number = 1): PetSimulation {
+    const pet = new PetSimulation({
+        getBounds: () => BOUNDS,
+        clock: fixedClock,
+        random: createSeededRandom(seed),
+        ...options,
+    });
+    pet.setSize(SIZE, SIZE);
+    return pet;
+}
+
+// Count the states picked when leaving `from`, over `samples` animation loops
+function sampleTransitions(pet: PetSimulation, from: string, samples: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < samples; i++) {
+        pet.setAction({ animation: from, direction: "right", timestamp: 0 });
+        pet.onAnimationComplete(true);
+        const next = pet.getAction().animation;
+        counts.set(next, (counts.get(next) ?? 0) + 1);
+    }
+    return counts;
+}
+
+// Step frame by frame until `done` holds, failing after `maxFrames`
+function stepUntil(pet: PetSimulation, done: () => boolean, maxFrames: number = 600): void {
+    for (let i = 0; i < maxFrames; i++) {
+        pet.step(FRAME);
+        if (done()) {
+            return;
+        }
+    }
+    assert.fail(`Condition not met after ${maxFrames} frames`);
+}
+
+describe('state machine', () => {
+    const samples = 5000;
+
+    for (const [name, profile] of Object.entries(DEFAULT_BEHAVIOR_PROFILES)) {
+        it(`follows the transition probabilities of the ${name} profile`, () => {
+            const pet = createPet();
+            pet.setBehavior(profile);
+            profile.animations.forEach((from, i) => {
+                const counts = sampleTransitions(pet, from, samples);
+                profile.animations.forEach((to, j) => {
+                    const expected = profile.transitions[i][j];
+                    const frequency = (counts.get(to) ?? 0) / samples;
+                    if (expected === 0) {
+                        assert.equal(frequency, 0, `${from} -> ${to} should never be picked`);
+                    } else {
+                        assert.ok(Math.abs(frequency - expected) < 0.03,
+                            `${from} -> ${to}: expected ${expected}, got ${frequency}`);
+                    }
+                });
+            });
+        });
+    }
+
+    it('never picks a state of probability zero', () => {
+        // The first state is ruled out, even for a random number of exactly 0
+        const pet = createPet({ random: () => 0 });
+        pet.setBehavior({ animations: ["Relax", "Sit"], transitions: [[0, 1], [0, 1]] });
+        assert.equal(sampleTransitions(pet, "Relax", 10).get("Sit"), 10);
+    });
+
+    it('moves on from an animation outside the profile like from its first state', () => {
+        const pet = createPet();
+        const samples = 5000;
+        const counts = sampleTransitions(pet, "Skill", samples);
+        const { animations, transitions } = DEFAULT_BEHAVIOR_PROFILES.standard;
+        animations.forEach((to, j) => {
+            const frequency = (counts.get(to) ?? 0) / samples;
+            assert.ok(Math.abs(frequency - transitions[0][j]) < 0.03,
+                `Skill -> ${to}: expected ${transitions[0][j]}, got ${frequency}`);
+        });
+    });
+
+    it('replays the same states from the same seed', () => {
+        const run = () => {
+            const pet = createPet({}, 42);
+            const states: string[] = [];
+            for (let i = 0; i < 100; i++) {
+                pet.onAnimationComplete(true);
+                states.push(pet.getAction().animation + ":" + pet.getAction().direction);
+            }
+            return states;
+        };
+        assert.deepEqual(run(), run());
+    });
+
+    it('keeps looping until the minimum dwell time is reached', () => {
+        const pet = createPet();
+        pet.setBehavior({
+            ...DEFAULT_BEHAVIOR_PROFILES.standard,
+            dwellTimes: { Sleep: { min: 5, max: 10 } },
+        });
+        pet.setAction({ animation: "Sleep", direction: "right", timestamp: 4 });
+        pet.onAnimationComplete(true);
+        assert.equal(pet.getAction().timestamp, 4);
+
+        // Exceeding the maximum leaves the state right away
+        pet.setAction({ animation: "Sleep", direction: "right", timestamp: 9.99 });
+        pet.setPosition(0, FLOOR_Y);
+        pet.step(0.1);
+        assert.equal(pet.getAction().timestamp, 0);
+    });
+});
+
+describe('reduced motion', () => {
+    it('never starts walking and renormalizes the other states', () => {
+        const pet = createPet({ isReducedMotion: () => true });
+        const samples = 5000;
+        const counts = sampleTransitions(pet, "Relax", samples);
+        assert.equal(counts.get("Move"), undefined);
+
+        // Relax row of the standard profile without Move: 0.5 out of 0.8
+        const frequency = (counts.get("Relax") ?? 0) / samples;
+        assert.ok(Math.abs(frequency - 0.625) < 0.03, `expected 0.625, got ${frequency}`);
+    });
+
+    it('stays in place if walking was the only way out', () => {
+        const pet = createPet({ isReducedMotion: () => true });
+        pet.setBehavior({
+            animations: ["Relax", "Move"],
+            transitions: [[0, 1], [0, 1]],
+            movingAnimations: ["Move"],
+        });
+        assert.deepEqual([...sampleTransitions(pet, "Relax", 10)], [["Relax", 10]]);
+    });
+
+    it('stops a walk on the next step', () => {
+        const pet = createPet({ isReducedMotion: () => true });
+        pet.setPosition(400, FLOOR_Y);
+        pet.setAction({ animation: "Move", direction: "right", timestamp: 0 });
+        pet.step(FRAME);
+        assert.notEqual(pet.getAction().animation, "Move");
+        assert.equal(pet.getPosition().x, 400);
+    });
+});
+
+describe('walking', () => {
+    it('turns around at the left edge of the window', () => {
+        const pet = createPet();
+        pet.setPosition(10, FLOOR_Y);
+        pet.setAction({ animation: "Move", direction: "left", timestamp: 0 });
+        pet.step(1);
+        assert.equal(pet.getPosition().x, 0);
+        assert.equal(pet.getAction().direction, "right");
+    });
+
+    it('turns around at the right edge of the window', () => {
+        const pet = createPet();
+        pet.setPosition(BOUNDS.width - SIZE - 10, FLOOR_Y);
+        pet.setAction({ animation: "Move", direction: "right", timestamp: 0 });
+        pet.step(1);
+        assert.equal(pet.getPosition().x, BOUNDS.width - SIZE);
+        assert.equal(pet.getAction().direction, "left");
+    });
+
+    const ledge: Ledge = { element: {} as Element, left: 200, right: 400, top: 300 };
+
+    // Stand with the pet's center 10px from the right end of the ledge, walking towards it
+    function createPetOnLedge(options: Partial<SimulationOptions>): PetSimulation {
+        const pet = createPet({ getLedges: () => [ledge], ...options });
+        pet.setPosition(ledge.right - 10 - SIZE / 2, ledge.top - SIZE);
+        pet.setAction({ animation: "Move", direction: "right", timestamp: 0 });
+        return pet;
+    }
+
+    it('turns around at the ends of a ledge in "turn" mode', () => {
+        const pet = createPetOnLedge({ platformEdges: "turn" });
+        pet.step(1);
+        assert.equal(pet.getPosition().x + SIZE / 2, ledge.right);
+        assert.equal(pet.getPosition().y, ledge.top - SIZE);
+        assert.equal(pet.getAction().direction, "left");
+
+        pet.setPosition(ledge.left + 10 - SIZE / 2, ledge.top - SIZE);
+        pet.step(1);
+        assert.equal(pet.getPosition().x + SIZE / 2, ledge.left);
+        assert.equal(pet.getAction().direction, "right");
+        assert.equal(pet.isAirborne(), false);
+    });
+
+    it('walks off the ends of a ledge and falls in "fall" mode', () => {
+        const pet = createPetOnLedge({ platformEdges: "fall" });
+        let landed = 0;
+        pet.on('landed', () => landed++);
+        pet.step(1);
+        assert.ok(pet.getPosition().x + SIZE / 2 > ledge.right);
+        assert.equal(pet.getAction().direction, "right");
+
+        stepUntil(pet, () => pet.isAirborne());
+        stepUntil(pet, () => !pet.isAirborne());
+        assert.equal(pet.getPosition().y, FLOOR_Y);
+        assert.equal(landed, 1);
+    });
+});
+
+describe('physics', () => {
+    it('bounces off the walls with bounceDamping', () => {
+        const pet = createPet();
+        const { drag, friction, bounceDamping } = pet.getPhysics();
+
+        pet.setPosition(BOUNDS.width - SIZE - 1, FLOOR_Y);
+        pet.setVelocity(500, 0);
+        pet.step(0.01);
+        const speed = integrateAxis(0, 500, 0, drag, 0.01).velocity * Math.pow(friction, 0.01);
+        assert.equal(pet.getPosition().x, BOUNDS.width - SIZE);
+        assert.ok(Math.abs(pet.getVelocity().x + speed * bounceDamping) < 1e-9);
+
+        pet.setPosition(1, FLOOR_Y);
+        pet.setVelocity(-500, 0);
+        pet.step(0.01);
+        assert.equal(pet.getPosition().x, 0);
+        assert.ok(Math.abs(pet.getVelocity().x - speed * bounceDamping) < 1e-9);
+    });
+
+    it('keeps to maxVelocity under gravity', () => {
+        const pet = createPet({ physics: { drag: 1 }, getBounds: () => ({ width: BOUNDS.width, height: 5000 }) });
+        const { maxVelocity } = pet.getPhysics();
+        pet.setPosition(400, 0);
+        stepUntil(pet, () => {
+            assert.ok(pet.getVelocity().y <= maxVelocity);
+            return pet.getVelocity().y === maxVelocity;
+        });
+    });
+
+    it('stops falling on the floor', () => {
+        const pet = createPet();
+        const landings: { x: number; y: number }[] = [];
+        pet.on('landed', position => landings.push(position));
+        pet.setPosition(400, 0);
+        stepUntil(pet, () => landings.length > 0);
+
+        assert.deepEqual(landings, [{ x: 400, y: FLOOR_Y }]);
+        assert.deepEqual(pet.getVelocity(), { x: 0, y: 0 });
+        assert.equal(pet.isAirborne(), false);
+        assert.equal(pet.getAction().animation, "Relax");
+
+        // Resting on the floor doesn't land again
+        pet.step(1);
+        assert.equal(landings.length, 1);
+    });
+
+    it('exchanges momentum between two pets that collide in the air', () => {
+        const physics = { gravity: 0, drag: 1, friction: 1 };
+        const neighbors: PetSimulation[] = [];
+        const getNeighbors = () => neighbors;
+        const a = createPet({ physics, getNeighbors });
+        const b = createPet({ physics, getNeighbors });
+        neighbors.push(a, b);
+
+        // Body radius is 20, so the bodies 30px apart overlap
+        a.setPosition(100, 100);
+        b.setPosition(130, 100);
+        a.setVelocity(300, 0);
+        b.setVelocity(-300, 0);
+        a.step(0.001);
+
+        // Approaching at 600, the impulse is 600 * (1 + 0.7) / 2
+        assert.ok(a.isAirborne());
+        assert.ok(Math.abs(a.getVelocity().x + 210) < 1e-9);
+        assert.ok(Math.abs(b.getVelocity().x - 210) < 1e-9);
+        assert.equal(a.getVelocity().y, 0);
+        assert.equal(b.getVelocity().y, 0);
+
+        // Pushed apart until the bodies touch
+        assert.ok(Math.abs(b.getPosition().x - a.getPosition().x - 40) < 1e-9);
+    });
+
+    it('lets walking pets pass through each other without bouncing', () => {
+        const neighbors: PetSimulation[] = [];
+        const a = createPet({ getNeighbors: () => neighbors });
+        const b = createPet({ getNeighbors: () => neighbors });
+        neighbors.push(a, b);
+        a.setPosition(100, FLOOR_Y);
+        b.setPosition(130, FLOOR_Y);
+        a.setVelocity(300, 0);
+        a.step(0.001);
+        assert.equal(b.getVelocity().x, 0);
+    });
+});
+
+describe('landing reactions', () => {
+    function throwPet(pet: PetSimulation, dx: number, dy: number): void {
+        pet.startDrag();
+        const { x, y } = pet.getPosition();
+        pet.dragTo(x + dx, y + dy, 0.1);
+        pet.endDrag();
+    }
+
+    function recordActions(pet: PetSimulation): { animation: string; loop: boolean }[] {
+        const actions: { animation: string; loop: boolean }[] = [];
+        pet.on('actionChange', ({ action, loop }) => actions.push({ animation: action.animation, loop }));
+        return actions;
+    }
+
+    it('plays the landing animation after a fall', () => {
+        const pet = createPet();
+        const behavior: BehaviorProfile = {
+            ...DEFAULT_BEHAVIOR_PROFILES.standard,
+            falling: { airborne: "Sit", landing: "Special" },
+        };
+        pet.setBehavior(behavior);
+        const actions = recordActions(pet);
+        pet.setPosition(400, 0);
+        stepUntil(pet, () => !pet.isAirborne());
+        assert.deepEqual(actions, [
+            { animation: "Sit", loop: true },
+            { animation: "Special", loop: false },
+        ]);
+    });
+
+    it('plays the hardThrow reaction once a hard throw lands, with the default physics', () => {
+        // Released at the default hardThrowSpeed, above the default maxVelocity
+        const pet = createPet();
+        pet.setPosition(400, FLOOR_Y);
+        throwPet(pet, 0, -DEFAULT_PHYSICS.hardThrowSpeed * 0.1);
+        assert.equal(pet.getVelocity().y, -DEFAULT_PHYSICS.maxVelocity);
+        const actions = recordActions(pet);
+        stepUntil(pet, () => actions.length > 0);
+        assert.equal(pet.getPosition().y, FLOOR_Y);
+        assert.deepEqual(actions, [{ animation: "Interact", loop: false }]);
+    });
+
+    it('plays nothing after a soft throw', () => {
+        const pet = createPet();
+        pet.setPosition(400, FLOOR_Y);
+        throwPet(pet, 0, -100);
+        const actions = recordActions(pet);
+        let landed = 0;
+        pet.on('landed', () => landed++);
+        stepUntil(pet, () => landed > 0);
+        assert.deepEqual(actions, []);
+    });
+
+    it('waits for a hard throw along the floor to hit a wall', () => {
+        const pet = createPet();
+        pet.setPosition(400, FLOOR_Y);
+        throwPet(pet, 200, 0);
+        const actions = recordActions(pet);
+        const landings: { x: number; y: number }[] = [];
+        pet.on('landed', position => landings.push(position));
+
+        pet.step(FRAME);
+        assert.deepEqual(landings, []);
+        assert.deepEqual(actions, []);
+
+        stepUntil(pet, () => landings.length > 0);
+        assert.deepEqual(landings, [{ x: BOUNDS.width - SIZE, y: FLOOR_Y }]);
+        assert.deepEqual(actions, [{ animation: "Interact", loop: false }]);
+    });
+
+    it('waits for a hard throw along the floor to come to rest', () => {
+        const pet = createPet({ getBounds: () => ({ width: 5000, height: BOUNDS.height }) });
+        pet.setPosition(100, FLOOR_Y);
+        throwPet(pet, 200, 0);
+        const actions = recordActions(pet);
+        let landed = 0;
+        pet.on('landed', () => landed++);
+
+        stepUntil(pet, () => landed > 0);
+        assert.equal(pet.getVelocity().x, 0);
+        assert.ok(pet.getPosition().x < 5000 - SIZE);
+        assert.deepEqual(actions, [{ animation: "Interact", loop: false }]);
+    });
+});